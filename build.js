@@ -34,6 +34,42 @@ async function buildContentScripts() {
       sourcemap: false,
     });
 
+    // Build Gemini content script
+    await esbuild.build({
+      entryPoints: ['src/content-scripts/gemini.ts'],
+      bundle: true,
+      outfile: 'dist/content-scripts/gemini.js',
+      platform: 'browser',
+      target: 'chrome90',
+      format: 'iife',
+      minify: true,
+      sourcemap: false,
+    });
+
+    // Build content script for self-hosted UIs (registered at runtime)
+    await esbuild.build({
+      entryPoints: ['src/content-scripts/local.ts'],
+      bundle: true,
+      outfile: 'dist/content-scripts/local.js',
+      platform: 'browser',
+      target: 'chrome90',
+      format: 'iife',
+      minify: true,
+      sourcemap: false,
+    });
+
+    // Build main-world network capture script (registered at runtime when enabled)
+    await esbuild.build({
+      entryPoints: ['src/content-scripts/capture.ts'],
+      bundle: true,
+      outfile: 'dist/content-scripts/capture.js',
+      platform: 'browser',
+      target: 'chrome90',
+      format: 'iife',
+      minify: true,
+      sourcemap: false,
+    });
+
     console.log('✅ Content scripts bundled successfully');
   } catch (error) {
     console.error('❌ Error building content scripts:', error);
@@ -86,6 +122,33 @@ async function buildBackgroundScripts() {
   }
 }
 
+// Bundle an extension page from src/<name>/<name>.ts and copy its html
+async function buildExtensionPage(name) {
+  try {
+    if (!fs.existsSync(`dist/${name}`)) {
+      fs.mkdirSync(`dist/${name}`, { recursive: true });
+    }
+
+    await esbuild.build({
+      entryPoints: [`src/${name}/${name}.ts`],
+      bundle: true,
+      outfile: `dist/${name}/${name}.js`,
+      platform: 'browser',
+      target: 'chrome90',
+      format: 'iife',
+      minify: true,
+      sourcemap: false,
+    });
+
+    fs.copyFileSync(`src/${name}/${name}.html`, `dist/${name}/${name}.html`);
+
+    console.log(`✅ ${name} page bundled successfully`);
+  } catch (error) {
+    console.error(`❌ Error building ${name} page:`, error);
+    process.exit(1);
+  }
+}
+
 // Copy static files
 function copyStaticFiles() {
   // Copy manifest.json
@@ -140,6 +203,10 @@ function copyStaticFiles() {
     'node_modules/tiktoken/encoders/o200k_base.json',
     'dist/encodings/o200k_base.json'
   );
+  fs.copyFileSync(
+    'node_modules/tiktoken/encoders/cl100k_base.json',
+    'dist/encodings/cl100k_base.json'
+  );
   fs.copyFileSync(
     'node_modules/@anthropic-ai/tokenizer/dist/cjs/claude.json',
     'dist/encodings/claude.json'
@@ -163,6 +230,10 @@ async function build() {
   // Build and copy
   await buildContentScripts();
   await buildBackgroundScripts();
+  await buildExtensionPage('options');
+  await buildExtensionPage('popup');
+  await buildExtensionPage('calculator');
+  await buildExtensionPage('offscreen');
   copyStaticFiles();
 
   console.log('✅ Build complete!');
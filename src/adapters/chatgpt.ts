@@ -0,0 +1,204 @@
+// Provider adapter for ChatGPT
+import { ProviderAdapter, MessageNodes, ProjectContext } from '../types';
+import { chatgptTranscriptParser } from '../parsers/chatgpt';
+
+export const chatgptAdapter: ProviderAdapter = {
+  id: 'chatgpt',
+  hostnames: ['chatgpt.com', 'chat.openai.com'],
+  encoding: 'o200k_base',
+  selectors: {
+    // Main chat container - multiple possible selectors
+    chatContainer: [
+      'main', // Try main element first
+      'main > div', // Direct child of main
+      'div.flex.flex-col.items-center', // Conversation area
+      'div[class*="react-scroll"]',
+      'div[class*="conversation"]',
+      '#__next main', // Next.js main content
+    ],
+    // User messages
+    userMessages: [
+      'div[data-message-author-role="user"]',
+      'div[class*="user-message"]',
+      'div[class*="human-message"]',
+      'article[data-testid*="user"]',
+    ],
+    // Assistant messages
+    assistantMessages: [
+      'div[data-message-author-role="assistant"]',
+      'div[class*="assistant-message"]',
+      'div[class*="bot-message"]',
+      'article[data-testid*="assistant"]',
+    ],
+    // Input field
+    inputField: [
+      'textarea#prompt-textarea',
+      'textarea[data-id="root"]',
+      'div[contenteditable="true"]',
+      'textarea[placeholder*="Send a message"]',
+    ],
+    // Model selector
+    modelSelector: [
+      'button[aria-label*="GPT"]',
+      'button[aria-label*="model"]',
+      'div[class*="model-selector"]',
+      'button[class*="model"]',
+      '[data-testid="model-selector"]',
+    ],
+    // Plan indicators
+    planIndicators: [
+      '[href="/gpts"]', // GPTs menu indicates Plus or higher
+      'button[aria-label*="GPT-5"]',
+      'nav a[href*="/gpts"]',
+      '[data-testid="plus-badge"]',
+      '[data-testid="pro-badge"]',
+    ],
+    // Main content area
+    mainContent: [
+      'main',
+      'div[role="main"]',
+      '#__next',
+      'body',
+    ],
+    // Uploaded file tiles and images in messages and the composer
+    attachments: [
+      '[data-testid="file-attachment"]',
+      'div[class*="file-tile"]',
+      'div[data-message-author-role="user"] img',
+      'form img[alt*="Uploaded"]',
+    ],
+    // "Thought for Xs" blocks on thinking models
+    reasoning: [
+      '[data-testid*="reasoning"]',
+      'div[class*="reasoning"]',
+      'button:has(> span[class*="loading-shimmer"])',
+    ],
+    // Code interpreter / analysis and other tool outputs
+    toolOutputs: [
+      'div[class*="code-interpreter"]',
+      '[data-testid*="tool-output"]',
+      'div[class*="analysis"]',
+    ],
+    // Web search citation pills
+    citations: [
+      'span[data-testid="webpage-citation-pill"] a',
+      'a[data-testid*="citation"]',
+      'a[class*="citation"]',
+    ],
+    // "2/3" between the previous/next response buttons
+    branchNavigator: ['button[aria-label="Previous response"] + div', 'div.tabular-nums'],
+    // Project page and GPT editor
+    projectInstructions: [
+      '[data-testid*="project-instructions"]',
+      'textarea[placeholder*="What does this GPT do"]',
+      'textarea[name="instructions"]',
+    ],
+    projectFiles: ['[data-testid*="project-file"]', '[data-testid*="knowledge-file"]'],
+    sendButton: ['#composer-submit-button', 'button[data-testid="send-button"]'],
+  },
+  defaultModel: 'gpt-5-fast',
+  defaultPlan: 'free',
+  fallbackMaxTokens: 16000,
+  debounceMs: 100,
+  systemPromptNote: 'Hidden system prompt and feature tokens are estimates - tune them in Options',
+  imageTokenFormula: 'openai',
+  // File uploads are text-extracted for retrieval
+  pdfTokensPerPage: 800,
+  // Reasoning items from earlier turns are discarded by OpenAI
+  reasoningRetention: 'drop-prior',
+  searchResultTokens: 400,
+  transcriptParser: chatgptTranscriptParser,
+  // The selector shows just "ChatGPT" until the real model loads
+  requireModelLabel: true,
+
+  detectPlan(): string {
+    // Check for plan indicators in the UI
+    const hasGPTsMenu = document.querySelector('[href="/gpts"]') !== null ||
+      document.querySelector('a[href="/gpts"]') !== null;
+
+    // Look for Plus/Pro text in profile or anywhere on page
+    const leafElements = Array.from(document.querySelectorAll('*')).filter(el => el.children.length === 0);
+    const plusElements = leafElements.filter(el => el.textContent?.trim() === 'Plus');
+    const proElements = leafElements.filter(el => el.textContent?.trim() === 'Pro');
+
+    const hasPlusIndicator = plusElements.length > 0 || document.body.textContent?.includes('Plus') || false;
+    const hasProIndicator = proElements.length > 0 || document.body.textContent?.includes('Pro') || false;
+
+    // Check for model availability - Pro users have access to GPT-5 Pro mode
+    const buttons = Array.from(document.querySelectorAll('button'));
+    const hasProModel = document.querySelector('[aria-label*="Pro"]') !== null ||
+      buttons.some(btn => btn.textContent?.includes('Pro'));
+
+    // Check for Thinking mode availability (Plus and Pro) - look in model selector
+    const hasThinkingMode = document.querySelector('[aria-label*="Thinking"]') !== null ||
+      buttons.some(btn => btn.textContent?.includes('Thinking'));
+
+    // Check for other Plus/Pro features
+    const hasCodex = document.querySelector('[href="/codex"]') !== null;
+    const hasSora = document.querySelector('[href*="sora"]') !== null;
+
+    if (hasProModel || (hasProIndicator && !hasPlusIndicator)) {
+      return 'pro';
+    } else if (hasGPTsMenu || hasPlusIndicator || hasThinkingMode || hasCodex || hasSora) {
+      return 'plus';
+    }
+    return 'free';
+  },
+
+  isNewChat(location: Location): boolean {
+    return location.pathname === '/' || location.pathname.includes('/new');
+  },
+
+  projectContext(location: Location): ProjectContext | null {
+    // Projects live under /g/g-p-<id>-<slug>/, with the overview at .../project
+    const project = location.pathname.match(/^\/g\/(g-p-[a-z0-9]+)/i);
+    if (project) {
+      return { id: project[1], isOverview: location.pathname.endsWith('/project'), feature: 'projectKnowledge' };
+    }
+    // Custom GPTs: instructions are only readable in the editor of your own GPTs
+    const editor = location.pathname.match(/^\/gpts\/editor\/(g-[a-z0-9]+)/i);
+    if (editor) {
+      return { id: editor[1], isOverview: true, feature: 'customInstructions' };
+    }
+    const gpt = location.pathname.match(/^\/g\/(g-[a-z0-9]+)/i);
+    return gpt ? { id: gpt[1], isOverview: false, feature: 'customInstructions' } : null;
+  },
+
+  detectFeatures() {
+    const context = this.projectContext!(window.location);
+    return {
+      projectKnowledge: context?.feature === 'projectKnowledge',
+      // Custom GPT instructions, until measured in the editor
+      customInstructions: context?.feature === 'customInstructions' ? true : undefined,
+    };
+  },
+
+  // The same chat opens at /c/<uuid> and, inside projects, at /g/g-p-<id>/c/<uuid>
+  conversationId(location: Location): string | null {
+    return chatgptTranscriptParser.pageConversationId(location);
+  },
+
+  // Model switches only change the ?model= query param
+  normalizeUrl(url: string): string {
+    return url.replace(/[?&]model=[^&]*/, '');
+  },
+
+  fallbackMessages(found: MessageNodes): MessageNodes {
+    if (found.user.length > 0 || found.assistant.length > 0) return found;
+
+    // Try article-based detection with h5/h6 headers
+    const user: Element[] = [];
+    const assistant: Element[] = [];
+    document.querySelectorAll('article').forEach(article => {
+      const heading = article.querySelector('h5, h6');
+      if (heading) {
+        if (heading.textContent?.includes('You said')) {
+          user.push(article);
+        } else if (heading.textContent?.includes('ChatGPT said')) {
+          assistant.push(article);
+        }
+      }
+    });
+    return { user, assistant };
+  },
+};
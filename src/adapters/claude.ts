@@ -0,0 +1,208 @@
+// Provider adapter for Claude.ai
+import { ProviderAdapter, MessageNodes, AttachmentInfo, ProjectContext } from '../types';
+import { describeAttachmentElement } from '../utils/attachments';
+import { claudeTranscriptParser } from '../parsers/claude';
+
+const PLACEHOLDERS = ['Reply to Claude...', 'Write your prompt to Claude', 'How can I help you today?'];
+
+export const claudeAdapter: ProviderAdapter = {
+  id: 'claude',
+  hostnames: ['claude.ai'],
+  encoding: 'claude',
+  selectors: {
+    // Main chat container - fallback approaches for finding conversation area
+    chatContainer: [
+      '[data-testid="conversation-turns"]', // Original selector
+      'div.flex.flex-col:has(div[data-testid^="user-"])', // Flex container with user messages
+      'div.flex.flex-col:has(div[data-testid^="assistant-"])', // Flex container with assistant messages
+      'main div.flex.flex-col', // Main flex column in chat area
+      'main > div > div', // Main content area
+      '.relative.mx-auto', // Content wrapper
+    ],
+    // Individual message elements
+    userMessages: ['[data-testid^="user-"]:not([data-testid="user-menu-button"])'],
+    assistantMessages: [
+      '[data-testid^="assistant-"]', // Original selector
+      '.font-claude-message', // Claude message styling class
+      'div.group.relative:has(.font-claude-message)', // Message container
+      'div:has(> div.font-claude-message)', // Parent container
+    ],
+    // Input field
+    inputField: ['.ProseMirror', 'div[contenteditable="true"]', 'textarea', '[role="textbox"]'],
+    // Model selector (if visible)
+    modelSelector: [
+      '[data-testid="model-selector"]',
+      'button:has(img[alt*="Claude"])',
+      'button:has(> div > img[alt="Claude"])',
+    ],
+    // Plan indicators
+    planIndicators: ['[data-testid="free-badge"]'],
+    // Main content area - fallback approaches
+    mainContent: ['main', '#__next', 'div.flex.min-h-screen', 'body'],
+    // Uploaded files, pasted-content chips and artifact cards
+    attachments: [
+      '[data-testid="file-thumbnail"]',
+      '[data-testid*="attachment"]',
+      'div[data-testid="user-message"] img',
+      '.artifact-block-cell',
+      'button[aria-label*="artifact" i]',
+    ],
+    // Extended thinking ("Thought process") blocks
+    reasoning: [
+      '[data-testid*="thinking"]',
+      'div[class*="thinking-block"]',
+      'details:has(> summary[class*="thought"])',
+    ],
+    // Tool use and analysis-tool results
+    toolOutputs: [
+      '[data-testid*="tool-use"]',
+      '[data-testid*="tool-result"]',
+      'div[class*="analysis-tool"]',
+    ],
+    // Web search citations
+    citations: [
+      'a[data-testid*="citation"]',
+      'span[class*="citation"] a',
+    ],
+    // "2 / 3" between the Previous/Next buttons under edited or retried messages
+    branchNavigator: ['button[aria-label="Previous"] + span', 'span.self-center.shrink-0'],
+    // Project page side panel
+    projectInstructions: ['[data-testid*="project-instructions"]', '[data-testid="project-prompt"]'],
+    projectFiles: [
+      '[data-testid*="project-knowledge"] [data-testid="file-thumbnail"]',
+      '[data-testid*="project-knowledge"] li',
+    ],
+    projectCapacity: ['[data-testid*="capacity"]', '[data-testid*="project-knowledge"]'],
+    sendButton: ['button[aria-label="Send message"]', 'button[aria-label="Send Message"]', 'fieldset button[type="submit"]'],
+  },
+  defaultModel: 'claude-sonnet-4', // Default to latest model
+  defaultPlan: 'pro',
+  fallbackMaxTokens: 50000,
+  debounceMs: 500,
+  systemPromptNote: 'Hidden system prompt and feature tokens are estimates - tune them in Options',
+  imageTokenFormula: 'claude',
+  // PDFs are sent as extracted text plus an image of every page
+  pdfTokensPerPage: 2000,
+  // Thinking blocks from previous assistant turns are stripped from context
+  reasoningRetention: 'drop-prior',
+  // Web search results carry page excerpts into context
+  searchResultTokens: 1500,
+  // "X% of project capacity used" is relative to the 200K window
+  projectCapacityTokens: 200000,
+  transcriptParser: claudeTranscriptParser,
+
+  detectPlan(): string {
+    const bodyText = document.body.textContent || '';
+
+    // Check for paid plan indicators first
+    if (bodyText.includes('Max plan')) return 'max';
+    if (bodyText.includes('Pro plan')) return 'pro';
+
+    // Only mark as free user if no paid plan detected AND free indicators present
+    const hasFreeIndicator = document.querySelector('[data-testid="free-badge"]') !== null;
+    if (bodyText.includes('Upgrade to') || bodyText.includes('message limit') ||
+      bodyText.includes('Free plan') || hasFreeIndicator) {
+      return 'free';
+    }
+    return 'pro';
+  },
+
+  isNewChat(location: Location): boolean {
+    return location.pathname === '/new' || location.pathname === '/';
+  },
+  newChatPath: '/new',
+
+  projectContext(location: Location): ProjectContext | null {
+    const overview = location.pathname.match(/^\/project\/([^/]+)/);
+    if (overview) {
+      return { id: overview[1], isOverview: true, feature: 'projectKnowledge' };
+    }
+    // Project chats show a breadcrumb back to the project
+    const breadcrumb = document.querySelector('header a[href^="/project/"]');
+    const id = breadcrumb?.getAttribute('href')?.split('/')[2];
+    return id ? { id, isOverview: false, feature: 'projectKnowledge' } : null;
+  },
+
+  detectFeatures() {
+    const inProject = this.projectContext!(window.location) !== null;
+
+    // The style picker shows the active style; "Normal" adds nothing
+    const styleButton = document.querySelector('button[aria-label*="style" i]');
+    const styleText = styleButton?.textContent?.trim() || '';
+
+    return {
+      projectKnowledge: inProject,
+      styles: styleButton ? styleText !== '' && !/normal/i.test(styleText) : undefined,
+    };
+  },
+
+  fallbackMessages(found: MessageNodes): MessageNodes {
+    if (found.assistant.length > 0) return found;
+
+    // Look for group containers with substantive content
+    const assistant: Element[] = [];
+    document.querySelectorAll('div.group').forEach((container) => {
+      // Check if any paragraph has substantial text (not UI elements)
+      const hasSubstantiveContent = Array.from(container.querySelectorAll('p')).some(p => {
+        const text = p.textContent || '';
+        return text.length > 50 &&
+          !text.includes('How can I help') &&
+          !text.includes('Reply to Claude') &&
+          !text.includes('Write your prompt');
+      });
+      if (!hasSubstantiveContent) return;
+
+      // User messages have the user's initials as a separate element at the start
+      const firstChild = container.firstElementChild;
+      const hasUserAvatar = firstChild && firstChild.textContent?.trim() === 'RS';
+
+      // Also check if this container has already been identified as a user message
+      const isUserMessage = container.querySelector('[data-testid^="user-"]') !== null;
+
+      if (!hasUserAvatar && !isUserMessage) {
+        assistant.push(container);
+      }
+    });
+
+    return { user: found.user, assistant };
+  },
+
+  messageText(element: Element, role: 'user' | 'assistant'): string {
+    const text = element.textContent || '';
+    if (role === 'user') return text;
+    // Skip button text and metadata
+    return text.replace(/(Copy|Edit|Retry|Good response|Bad response|Share|Switch model)/g, '').trim();
+  },
+
+  describeAttachment(element: Element): AttachmentInfo | null {
+    const info = describeAttachmentElement(element);
+    if (!info) return null;
+
+    // Artifact cards only show a title; the body lives in the side panel
+    if (element.matches('.artifact-block-cell, button[aria-label*="artifact" i]')) {
+      const title = element.querySelector('.leading-tight, [class*="title"]')?.textContent?.trim();
+      return { ...info, kind: 'artifact', name: title || info.name };
+    }
+
+    // Pasted-content chips only show a preview, so estimate from the line count
+    if (/pasted/i.test(element.textContent || '')) {
+      return { ...info, kind: 'text', name: 'Pasted content' };
+    }
+    return info;
+  },
+
+  inputText(inputField: Element): string {
+    let inputText = '';
+    if (inputField.classList.contains('ProseMirror')) {
+      // ProseMirror stores text in paragraphs
+      const paragraphs = inputField.querySelectorAll('p');
+      inputText = Array.from(paragraphs).map(p => p.textContent || '').join('\n').trim();
+    } else {
+      // Fallback to regular text content or value
+      inputText = (inputField as HTMLElement).textContent || (inputField as HTMLInputElement).value || '';
+    }
+
+    // Filter out placeholder text
+    return PLACEHOLDERS.includes(inputText) ? '' : inputText;
+  },
+};
@@ -0,0 +1,88 @@
+// Provider adapter for Gemini (gemini.google.com)
+import { ProviderAdapter } from '../types';
+
+export const geminiAdapter: ProviderAdapter = {
+  id: 'gemini',
+  hostnames: ['gemini.google.com'],
+  encoding: 'gemini-approx',
+  selectors: {
+    // Conversation scroller
+    chatContainer: [
+      '#chat-history',
+      'infinite-scroller',
+      'div.conversation-container',
+      'main',
+    ],
+    // Gemini renders turns as custom elements
+    userMessages: ['user-query'],
+    assistantMessages: ['model-response'],
+    // Quill-based rich textarea
+    inputField: [
+      'rich-textarea .ql-editor',
+      'div.ql-editor[contenteditable="true"]',
+      'div[contenteditable="true"][role="textbox"]',
+      'textarea',
+    ],
+    // Mode switcher shows the active model ("2.5 Pro", "2.5 Flash", ...)
+    modelSelector: [
+      '[data-test-id="bard-mode-menu-button"]',
+      'bard-mode-switcher button',
+      'button[aria-label*="mode picker"]',
+      '.current-mode-title',
+    ],
+    // Main content area
+    mainContent: ['main', 'chat-app', 'body'],
+    // Uploaded file and image previews
+    attachments: [
+      'user-query-file-preview',
+      'uploader-file-preview',
+      'user-query img',
+    ],
+    // "Show thinking" panels
+    reasoning: ['model-thoughts', 'div[class*="thoughts"]'],
+    // Code execution results
+    toolOutputs: ['code-execution-result', 'div[class*="code-execution"]'],
+    // Grounding sources
+    citations: ['sources-list a', 'source-footnote a'],
+    sendButton: ['button.send-button', 'button[aria-label="Send message"]'],
+  },
+  defaultModel: 'gemini-2.5-flash',
+  defaultPlan: 'free',
+  fallbackMaxTokens: 1000000,
+  debounceMs: 300,
+  systemPromptNote: 'Hidden system instructions and Gem tokens are estimates - tune them in Options',
+  imageTokenFormula: 'gemini',
+  // Gemini bills each PDF page as an image
+  pdfTokensPerPage: 258,
+  // Thoughts are not carried into later turns
+  reasoningRetention: 'drop-prior',
+
+  detectPlan(): string {
+    // All plans share the same model windows in the Gemini app
+    return 'free';
+  },
+
+  isNewChat(location: Location): boolean {
+    return location.pathname === '/app' || location.pathname === '/';
+  },
+  newChatPath: '/app',
+
+  detectFeatures() {
+    // Gems carry their own instructions, counted as custom instructions
+    return { customInstructions: window.location.pathname.includes('/gem/') };
+  },
+
+  messageText(element: Element, role: 'user' | 'assistant'): string {
+    // Read the text body only, skipping action buttons and "Show drafts" chrome
+    const body = role === 'user'
+      ? element.querySelector('.query-text')
+      : element.querySelector('message-content');
+    return ((body || element).textContent || '').trim();
+  },
+
+  inputText(inputField: Element): string {
+    // Quill keeps an empty <p><br></p> when blank
+    const text = (inputField as HTMLElement).innerText || (inputField as HTMLTextAreaElement).value || '';
+    return text.trim();
+  },
+};
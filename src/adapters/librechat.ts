@@ -0,0 +1,48 @@
+// Provider adapter for LibreChat instances
+import { CustomSite, ProviderAdapter } from '../types';
+import { matchConfiguredModel } from '../utils/models';
+
+export function createLibreChatAdapter(site: CustomSite): ProviderAdapter {
+  return {
+    id: 'librechat',
+    hostnames: [new URL(site.origin).hostname],
+    // Local models use many tokenizers; cl100k_base, which Llama 3 extends, approximates them
+    encoding: 'llama-approx',
+    selectors: {
+      chatContainer: ['main div[class*="overflow-y-auto"]', 'main'],
+      userMessages: ['div.user-turn', 'div[data-testid="user-message"]'],
+      assistantMessages: ['div.agent-turn', 'div[data-testid="assistant-message"]'],
+      inputField: ['textarea#prompt-textarea', 'textarea[data-testid="text-input"]', 'textarea'],
+      modelSelector: ['button[data-testid="model-selector"]', 'button[aria-label*="Select a model"]', '#new-conversation-menu'],
+      mainContent: ['main', 'body'],
+      sendButton: ['button[data-testid="send-button"]', '#send-button'],
+    },
+    limits: {
+      default: site.models,
+    },
+    defaultModel: Object.keys(site.models)[0] || 'default',
+    defaultPlan: 'default',
+    fallbackMaxTokens: site.defaultMaxTokens,
+    debounceMs: 300,
+    systemPromptNote: 'Presets, agent instructions and file context are not included',
+
+    detectModel(modelText: string): string {
+      return matchConfiguredModel(modelText, site);
+    },
+
+    detectPlan(): string {
+      return 'default';
+    },
+
+    isNewChat(location: Location): boolean {
+      return location.pathname === '/' || location.pathname === '/c/new';
+    },
+    newChatPath: '/c/new',
+
+    messageText(element: Element): string {
+      // Message bodies render as markdown; skip the author header and action buttons
+      const body = element.querySelector('.markdown, div[class*="message-content"]');
+      return ((body || element).textContent || '').trim();
+    },
+  };
+}
@@ -0,0 +1,13 @@
+// Adapters for self-hosted chat UIs registered from the options page
+import { CustomSite, ProviderAdapter } from '../types';
+import { createOpenWebUIAdapter } from './open-webui';
+import { createLibreChatAdapter } from './librechat';
+
+export function createLocalAdapter(site: CustomSite): ProviderAdapter {
+  switch (site.flavor) {
+    case 'librechat':
+      return createLibreChatAdapter(site);
+    default:
+      return createOpenWebUIAdapter(site);
+  }
+}
@@ -0,0 +1,48 @@
+// Provider adapter for Open WebUI instances
+import { CustomSite, ProviderAdapter } from '../types';
+import { matchConfiguredModel } from '../utils/models';
+
+export function createOpenWebUIAdapter(site: CustomSite): ProviderAdapter {
+  return {
+    id: 'open-webui',
+    hostnames: [new URL(site.origin).hostname],
+    // Local models use many tokenizers; cl100k_base, which Llama 3 extends, approximates them
+    encoding: 'llama-approx',
+    selectors: {
+      chatContainer: ['#messages-container', '#chat-container', 'main'],
+      userMessages: ['div.chat-user', 'div[class*="user-message"]'],
+      assistantMessages: ['div.chat-assistant', 'div[class*="assistant-message"]'],
+      inputField: ['#chat-input', 'textarea#chat-textarea', 'div[contenteditable="true"]', 'textarea'],
+      // Model picker button(s) in the navbar
+      modelSelector: ['#model-selector-0-button', 'button[aria-label="Select a model"]', 'button[id^="model-selector"]'],
+      mainContent: ['body'],
+      sendButton: ['#send-message-button', 'button[type="submit"]'],
+    },
+    limits: {
+      default: site.models,
+    },
+    defaultModel: Object.keys(site.models)[0] || 'default',
+    defaultPlan: 'default',
+    fallbackMaxTokens: site.defaultMaxTokens,
+    debounceMs: 300,
+    systemPromptNote: 'Model system prompts and RAG context are not included',
+
+    detectModel(modelText: string): string {
+      return matchConfiguredModel(modelText, site);
+    },
+
+    detectPlan(): string {
+      return 'default';
+    },
+
+    isNewChat(location: Location): boolean {
+      return location.pathname === '/' || location.pathname === '/c/new';
+    },
+
+    messageText(element: Element): string {
+      // Prefer the rendered markdown body over buttons and timestamps
+      const body = element.querySelector('#response-content-container, .markdown-prose, .prose');
+      return ((body || element).textContent || '').trim();
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// Registers the main-world network capture script while the opt-in setting is on
+import { getSettings } from '../utils/storage';
+import { STORAGE_KEYS } from '../utils/constants';
+import { CAPTURE_MATCHES } from '../parsers/endpoints';
+
+const SCRIPT_ID = 'network-capture';
+
+// Get runtime API that works in both Chrome and Firefox
+const runtime = (globalThis as any).browser ?? (globalThis as any).chrome;
+
+async function syncCaptureScript() {
+  const settings = await getSettings();
+
+  const registered: { id: string }[] = await runtime.scripting.getRegisteredContentScripts({ ids: [SCRIPT_ID] });
+  const isRegistered = registered.length > 0;
+  if (isRegistered === settings.networkCapture) return;
+
+  if (isRegistered) {
+    await runtime.scripting.unregisterContentScripts({ ids: [SCRIPT_ID] });
+    return;
+  }
+
+  // Runs before the page's own scripts so the first conversation fetch is seen
+  await runtime.scripting.registerContentScripts([{
+    id: SCRIPT_ID,
+    matches: CAPTURE_MATCHES,
+    js: ['content-scripts/capture.js'],
+    runAt: 'document_start',
+    world: 'MAIN',
+    persistAcrossSessions: true,
+  }]);
+}
+
+export function installCaptureRegistry() {
+  const sync = () => {
+    syncCaptureScript().catch((error: any) => {
+      console.error('Failed to register network capture script:', error);
+    });
+  };
+
+  runtime.runtime.onInstalled.addListener(sync);
+  runtime.runtime.onStartup.addListener(sync);
+  runtime.storage.onChanged.addListener((changes: any, area: string) => {
+    if (area === 'sync' && changes[STORAGE_KEYS.SETTINGS]) {
+      sync();
+    }
+  });
+}
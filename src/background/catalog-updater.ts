@@ -0,0 +1,50 @@
+// Loads a newer model catalog from the user-configured URL
+import { storeCatalog } from '../utils/catalog';
+import { getSettings } from '../utils/storage';
+import { STORAGE_KEYS } from '../utils/constants';
+import { CatalogStatus } from '../types';
+
+// Get runtime API that works in both Chrome and Firefox
+const runtime = (globalThis as any).browser ?? (globalThis as any).chrome;
+
+export async function refreshCatalog(): Promise<CatalogStatus | null> {
+  const { catalogUrl } = await getSettings();
+  if (!catalogUrl) return null;
+
+  try {
+    const response = await fetch(catalogUrl, { cache: 'no-cache' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await storeCatalog(await response.json(), catalogUrl);
+  } catch (error: any) {
+    const status: CatalogStatus = {
+      source: catalogUrl,
+      loadedAt: Date.now(),
+      errors: [`Failed to fetch catalog: ${error.message}`],
+    };
+    await runtime.storage.local.set({ [STORAGE_KEYS.CATALOG_STATUS]: status });
+    return status;
+  }
+}
+
+export function installCatalogUpdater() {
+  const refresh = () => {
+    refreshCatalog().catch((error: any) => {
+      console.error('Catalog refresh failed:', error);
+    });
+  };
+
+  runtime.runtime.onInstalled.addListener(refresh);
+  runtime.runtime.onStartup.addListener(refresh);
+
+  runtime.runtime.onMessage.addListener((request: any, _sender: any, sendResponse: any) => {
+    if (request.type === 'REFRESH_CATALOG') {
+      refreshCatalog()
+        .then(status => sendResponse({ success: true, status }))
+        .catch((error: any) => sendResponse({ success: false, error: error.message }));
+      return true; // Will respond asynchronously
+    }
+    return false;
+  });
+}
@@ -0,0 +1,56 @@
+// Lazily loaded BPE encoders, one per base vocabulary
+import { Tiktoken, init } from 'tiktoken/lite/init';
+import { BaseEncoding, ENCODINGS, resolveEncoding } from '../utils/encodings';
+
+// Get runtime API that works in both Chrome and Firefox
+const runtime = (globalThis as any).browser ?? (globalThis as any).chrome;
+
+let initPromise: Promise<void> | null = null;
+const encoders: Map<BaseEncoding, Promise<Tiktoken>> = new Map();
+// Milliseconds each encoder took to load, including the wasm init for the first one
+const loadTimes: Map<BaseEncoding, number> = new Map();
+
+async function loadWasm() {
+  const url = runtime.runtime.getURL('wasm/tiktoken_bg.wasm');
+
+  return await init(async (imports) => {
+    const response = await fetch(url);
+    const bytes = await response.arrayBuffer();
+    const result = await WebAssembly.instantiate(bytes, imports);
+    return result;
+  });
+}
+
+async function ensureInit() {
+  if (!initPromise) {
+    initPromise = loadWasm();
+  }
+  return initPromise;
+}
+
+async function loadEncoder(base: BaseEncoding): Promise<Tiktoken> {
+  const start = performance.now();
+  await ensureInit();
+  const response = await fetch(runtime.runtime.getURL(`encodings/${base}.json`));
+  const ranks = await response.json();
+  const encoder = new Tiktoken(ranks.bpe_ranks, ranks.special_tokens, ranks.pat_str);
+  loadTimes.set(base, performance.now() - start);
+  return encoder;
+}
+
+// Unknown encodings fall back to o200k_base
+export function getEncoder(encoding: string): Promise<Tiktoken> {
+  const { base } = ENCODINGS[resolveEncoding(encoding)];
+  let encoder = encoders.get(base);
+  if (!encoder) {
+    encoder = loadEncoder(base);
+    // Let a failed load be retried on the next request
+    encoder.catch(() => encoders.delete(base));
+    encoders.set(base, encoder);
+  }
+  return encoder;
+}
+
+export function encoderLoadTimes(): { [base: string]: number } {
+  return Object.fromEntries(loadTimes);
+}
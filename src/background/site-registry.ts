@@ -0,0 +1,63 @@
+// Registers the local-UI content script for origins the user added in the options page
+import { getCustomSites, originPattern } from '../utils/storage';
+import { STORAGE_KEYS } from '../utils/constants';
+
+const SCRIPT_ID_PREFIX = 'custom-site:';
+
+// Get runtime API that works in both Chrome and Firefox
+const runtime = (globalThis as any).browser ?? (globalThis as any).chrome;
+
+async function syncRegisteredScripts() {
+  const sites = await getCustomSites();
+
+  // Drop everything we registered before, then re-register what's still configured
+  const registered: { id: string }[] = await runtime.scripting.getRegisteredContentScripts();
+  const staleIds = registered.map(s => s.id).filter(id => id.startsWith(SCRIPT_ID_PREFIX));
+  if (staleIds.length > 0) {
+    await runtime.scripting.unregisterContentScripts({ ids: staleIds });
+  }
+
+  const scripts = [];
+  for (const site of sites) {
+    // Only register origins the user actually granted
+    const granted = await runtime.permissions.contains({ origins: [originPattern(site.origin)] });
+    if (!granted) continue;
+
+    scripts.push({
+      id: `${SCRIPT_ID_PREFIX}${site.origin}`,
+      matches: [originPattern(site.origin)],
+      js: ['content-scripts/local.js'],
+      css: ['styles/indicator.css'],
+      runAt: 'document_idle',
+      persistAcrossSessions: true,
+    });
+  }
+
+  if (scripts.length > 0) {
+    await runtime.scripting.registerContentScripts(scripts);
+  }
+}
+
+// Adding a site fires both permissions.onAdded and storage.onChanged; overlapping syncs
+// would register the same script id twice, so each one waits for the previous to finish
+let pending: Promise<void> = Promise.resolve();
+
+export function installSiteRegistry() {
+  const sync = () => {
+    pending = pending
+      .then(syncRegisteredScripts)
+      .catch((error: any) => {
+        console.error('Failed to register custom site scripts:', error);
+      });
+  };
+
+  runtime.runtime.onInstalled.addListener(sync);
+  runtime.runtime.onStartup.addListener(sync);
+  runtime.permissions.onAdded.addListener(sync);
+  runtime.permissions.onRemoved.addListener(sync);
+  runtime.storage.onChanged.addListener((changes: any, area: string) => {
+    if (area === 'sync' && changes[STORAGE_KEYS.CUSTOM_SITES]) {
+      sync();
+    }
+  });
+}
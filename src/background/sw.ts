@@ -1,4 +1,12 @@
 // Chrome service worker - imports shared tokenizer host
 import { installMessageHandler } from './tokenizer-host';
+import { installSiteRegistry } from './site-registry';
+import { installCatalogUpdater } from './catalog-updater';
+import { installCaptureRegistry } from './capture-registry';
+import { installHistoryHandler } from './usage-history';
 
 installMessageHandler();
+installSiteRegistry();
+installCatalogUpdater();
+installCaptureRegistry();
+installHistoryHandler();
@@ -1,83 +1,92 @@
-// Shared tokenization logic for both Chrome service worker and Firefox event page
-import { Tiktoken, init } from 'tiktoken/lite/init';
-import o200k_base from 'tiktoken/encoders/o200k_base.json';
-import claudeEncoding from '@anthropic-ai/tokenizer/dist/cjs/claude.json';
+// Routes tokenizer messages to a context that outlives service-worker suspension:
+// an offscreen document on Chrome, the event page itself on Firefox
+import { TOKENIZER_MESSAGES, TOKENIZER_TARGET, handleTokenizerRequest, warmUp } from './tokenizer-service';
 
-let claudeEncoder: Tiktoken | null = null;
-let gptEncoder: Tiktoken | null = null;
-let initPromise: Promise<void> | null = null;
+const OFFSCREEN_URL = 'offscreen/offscreen.html';
+// Re-sends after the offscreen document was closed or crashed
+const MAX_RELAY_RETRIES = 1;
 
 // Get runtime API that works in both Chrome and Firefox
 const runtime = (globalThis as any).browser ?? (globalThis as any).chrome;
 
-async function loadWasm() {
-  const url = runtime.runtime.getURL('wasm/tiktoken_bg.wasm');
-  
-  return await init(async (imports) => {
-    const response = await fetch(url);
-    const bytes = await response.arrayBuffer();
-    const result = await WebAssembly.instantiate(bytes, imports);
-    return result;
+let creating: Promise<void> | null = null;
+let launches = 0;
+let retries = 0;
+
+async function hasOffscreenDocument(): Promise<boolean> {
+  const contexts = await runtime.runtime.getContexts({
+    contextTypes: ['OFFSCREEN_DOCUMENT'],
+    documentUrls: [runtime.runtime.getURL(OFFSCREEN_URL)],
   });
+  return contexts.length > 0;
 }
 
-async function ensureInit() {
-  if (!initPromise) {
-    initPromise = loadWasm();
+// Concurrent callers share one creation, so requests arriving during startup queue behind it
+function ensureOffscreenDocument(): Promise<void> {
+  if (!creating) {
+    creating = (async () => {
+      if (await hasOffscreenDocument()) return;
+      await runtime.offscreen.createDocument({
+        url: OFFSCREEN_URL,
+        reasons: ['WORKERS'],
+        justification: 'Keeps the tokenizer loaded while the service worker is suspended',
+      });
+      launches++;
+    })();
+    creating.catch(() => {
+      creating = null;
+    });
   }
-  return initPromise;
+  return creating;
 }
 
-async function getClaudeEncoder() {
-  if (!claudeEncoder) {
-    await ensureInit();
-    claudeEncoder = new Tiktoken(
-      claudeEncoding.bpe_ranks,
-      claudeEncoding.special_tokens,
-      claudeEncoding.pat_str
-    );
+async function relay(request: any): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await ensureOffscreenDocument();
+      const response = await runtime.runtime.sendMessage({ ...request, target: TOKENIZER_TARGET });
+      if (!response) throw new Error('Tokenizer document did not respond');
+      return response;
+    } catch (error) {
+      if (attempt >= MAX_RELAY_RETRIES) throw error;
+      // Check for the document again before re-sending
+      creating = null;
+      retries++;
+    }
   }
-  return claudeEncoder;
 }
 
-async function getGPTEncoder() {
-  if (!gptEncoder) {
-    await ensureInit();
-    gptEncoder = new Tiktoken(
-      o200k_base.bpe_ranks,
-      o200k_base.special_tokens,
-      o200k_base.pat_str
-    );
+export function installMessageHandler() {
+  const useOffscreen = Boolean(runtime.offscreen);
+
+  // Warm up as soon as the background starts rather than on the first count
+  if (useOffscreen) {
+    ensureOffscreenDocument().catch((error: any) => {
+      console.error('Failed to create the tokenizer document:', error);
+    });
+  } else {
+    warmUp();
   }
-  return gptEncoder;
-}
 
-export function installMessageHandler() {
-  runtime.runtime.onMessage.addListener((request: any, sender: any, sendResponse: any) => {
-    if (request.type === 'COUNT_TOKENS') {
-      (async () => {
-        try {
-          const { text, provider } = request;
-          let count: number;
-          
-          if (provider === 'claude') {
-            const encoder = await getClaudeEncoder();
-            count = encoder.encode(text).length;
-            console.log(`[Claude Tokenizer] Text: "${text.substring(0, 50)}..." -> ${count} tokens`);
-          } else {
-            const encoder = await getGPTEncoder();
-            count = encoder.encode(text).length;
-            console.log(`[GPT o200k_base] Text: "${text.substring(0, 50)}..." -> ${count} tokens`);
-          }
-          
-          sendResponse({ success: true, count });
-        } catch (error: any) {
-          console.error('Token count error in background:', error);
-          sendResponse({ success: false, error: error.message });
-        }
-      })();
-      
+  runtime.runtime.onMessage.addListener((request: any, _sender: any, sendResponse: any) => {
+    if (!TOKENIZER_MESSAGES.includes(request.type) || request.target) return false;
+
+    if (!useOffscreen) {
+      handleTokenizerRequest(request, 'background').then(sendResponse);
       return true; // Will respond asynchronously
     }
+
+    relay(request)
+      .then(response => {
+        if (request.type === 'GET_TOKENIZER_METRICS' && response.success) {
+          response.metrics = { ...response.metrics, launches, retries };
+        }
+        sendResponse(response);
+      })
+      .catch((error: any) => {
+        console.error('Tokenizer relay error:', error);
+        sendResponse({ success: false, error: error.message });
+      });
+    return true; // Will respond asynchronously
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,79 @@
+// Token counting and its timings; runs in the offscreen document on Chrome and the event page on Firefox
+import { encoderLoadTimes, getEncoder } from './encoders';
+import { EncodingId, TokenizerMetrics, TokenizerSample } from '../types';
+
+// Messages relayed from the service worker to the offscreen document carry this target
+export const TOKENIZER_TARGET = 'tokenizer';
+export const TOKENIZER_MESSAGES = ['COUNT_TOKENS', 'COUNT_TOKENS_BATCH', 'GET_TOKENIZER_METRICS'];
+
+// Encoders the built-in chat sites use, loaded before the first count asks for them
+const WARM_ENCODINGS: EncodingId[] = ['claude', 'o200k_base'];
+const MAX_SAMPLES = 50;
+
+const startedAt = Date.now();
+const samples: TokenizerSample[] = [];
+let requests = 0;
+let failures = 0;
+
+// Requests that arrive while an encoder loads wait on the same promise
+async function count(texts: string[], encoding: string): Promise<number[]> {
+  requests++;
+  const start = performance.now();
+  try {
+    const encoder = await getEncoder(encoding);
+    const loaded = performance.now();
+    const counts = texts.map(text => encoder.encode(text).length);
+
+    samples.push({
+      at: Date.now(),
+      encoding,
+      texts: texts.length,
+      tokens: counts.reduce((a, b) => a + b, 0),
+      waitMs: loaded - start,
+      encodeMs: performance.now() - loaded,
+    });
+    if (samples.length > MAX_SAMPLES) samples.shift();
+    return counts;
+  } catch (error) {
+    failures++;
+    throw error;
+  }
+}
+
+export function warmUp() {
+  WARM_ENCODINGS.forEach(encoding => {
+    getEncoder(encoding).catch((error: any) => {
+      console.warn(`Failed to preload the ${encoding} encoder:`, error);
+    });
+  });
+}
+
+export function getTokenizerMetrics(host: TokenizerMetrics['host']): TokenizerMetrics {
+  return { host, startedAt, requests, failures, coldStarts: encoderLoadTimes(), samples: [...samples] };
+}
+
+// Resolves to the response for a tokenizer message
+export async function handleTokenizerRequest(request: any, host: TokenizerMetrics['host']): Promise<any> {
+  try {
+    if (request.type === 'COUNT_TOKENS') {
+      const [tokens] = await count([request.text], request.encoding);
+      console.log(`[${request.encoding}] Text: "${request.text.substring(0, 50)}..." -> ${tokens} tokens`);
+      return { success: true, count: tokens };
+    }
+
+    // Many texts in one round-trip; counts come back in the same order
+    if (request.type === 'COUNT_TOKENS_BATCH') {
+      const counts = await count(request.texts, request.encoding);
+      console.log(`[${request.encoding}] Batch of ${counts.length} texts -> ${counts.reduce((a, b) => a + b, 0)} tokens`);
+      return { success: true, counts };
+    }
+
+    if (request.type === 'GET_TOKENIZER_METRICS') {
+      return { success: true, metrics: getTokenizerMetrics(host) };
+    }
+    return { success: false, error: `Unknown tokenizer request: ${request.type}` };
+  } catch (error: any) {
+    console.error('Token count error in background:', error);
+    return { success: false, error: error.message };
+  }
+}
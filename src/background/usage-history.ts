@@ -0,0 +1,120 @@
+// IndexedDB store of per-conversation usage, shared by every site through runtime messages
+import { ConversationUsage } from '../types';
+
+const DB_NAME = 'ai-context-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'conversations';
+// Least recently updated conversations are dropped beyond this many
+const MAX_ENTRIES = 1000;
+
+// Get runtime API that works in both Chrome and Firefox
+const runtime = (globalThis as any).browser ?? (globalThis as any).chrome;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs in the write's transaction, after the put
+function pruneOldest(store: IDBObjectStore): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - MAX_ENTRIES;
+      if (excess <= 0) {
+        resolve();
+        return;
+      }
+      const cursorRequest = store.index('updatedAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor && excess-- > 0) {
+          cursor.delete();
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    };
+    countRequest.onerror = () => reject(countRequest.error);
+  });
+}
+
+export async function putUsage(usage: ConversationUsage): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await Promise.all([requestResult(store.put(usage)), pruneOldest(store)]);
+}
+
+export async function getUsage(key: string): Promise<ConversationUsage | null> {
+  const db = await openDatabase();
+  const usage = await requestResult(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key));
+  return usage || null;
+}
+
+// Most recently updated conversations first
+export async function listUsage(limit: number): Promise<ConversationUsage[]> {
+  const db = await openDatabase();
+  const index = db.transaction(STORE_NAME).objectStore(STORE_NAME).index('updatedAt');
+  return new Promise((resolve, reject) => {
+    const results: ConversationUsage[] = [];
+    const request = index.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && results.length < limit) {
+        results.push(cursor.value);
+        cursor.continue();
+      } else {
+        resolve(results);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function installHistoryHandler() {
+  runtime.runtime.onMessage.addListener((request: any, _sender: any, sendResponse: any) => {
+    if (request.type === 'SAVE_USAGE') {
+      putUsage(request.usage)
+        .then(() => sendResponse({ success: true }))
+        .catch((error: any) => sendResponse({ success: false, error: error.message }));
+      return true; // Will respond asynchronously
+    }
+    if (request.type === 'GET_USAGE') {
+      getUsage(request.key)
+        .then(usage => sendResponse({ success: true, usage }))
+        .catch((error: any) => sendResponse({ success: false, error: error.message }));
+      return true;
+    }
+    if (request.type === 'LIST_USAGE') {
+      listUsage(request.limit || 50)
+        .then(usages => sendResponse({ success: true, usages }))
+        .catch((error: any) => sendResponse({ success: false, error: error.message }));
+      return true;
+    }
+    return false;
+  });
+}
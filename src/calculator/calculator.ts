@@ -0,0 +1,211 @@
+// "Will it fit?" calculator: tokenizes pasted text and dropped files against every catalog model
+import { CatalogModel, EncodingId, TrackerStatus, UserSettings } from '../types';
+import { countTokens } from '../utils/tokenizer';
+import { getCatalog } from '../utils/catalog';
+import { getSettings } from '../utils/storage';
+import { listRecentUsage } from '../utils/history';
+import { PROVIDER_LABELS } from '../utils/constants';
+import { ENCODINGS, resolveEncoding } from '../utils/encodings';
+
+// Files read as text; anything else is listed but not counted
+const TEXT_FILE_PATTERN = /\.(txt|md|markdown|json|jsonl|csv|tsv|xml|ya?ml|toml|ini|log|html?|css|js|jsx|ts|tsx|py|rb|go|rs|java|kt|swift|c|cc|cpp|h|hpp|cs|php|sh|sql)$/i;
+
+// Recount after typing stops for this long
+const RECOUNT_DELAY_MS = 400;
+
+interface LoadedFile {
+  name: string;
+  size: number;
+  text: string | null;
+}
+
+interface Alongside {
+  label: string;
+  tokens: number;
+}
+
+const files: LoadedFile[] = [];
+let alongside: Alongside[] = [];
+let recountTimeout: ReturnType<typeof setTimeout> | null = null;
+// Drops results from a recount that a newer one replaced
+let recountId = 0;
+
+function isTextFile(file: File): boolean {
+  return file.type.startsWith('text/') || file.type === 'application/json' || TEXT_FILE_PATTERN.test(file.name);
+}
+
+async function addFiles(list: FileList | null) {
+  if (!list) return;
+  for (const file of Array.from(list)) {
+    files.push({ name: file.name, size: file.size, text: isTextFile(file) ? await file.text() : null });
+  }
+  renderFiles();
+  scheduleRecount();
+}
+
+function renderFiles() {
+  const fileList = document.getElementById('file-list')!;
+  fileList.innerHTML = '';
+  files.forEach((file, index) => {
+    const item = document.createElement('li');
+    const kb = Math.max(1, Math.round(file.size / 1024));
+    item.textContent = file.text === null
+      ? `${file.name} (${kb} KB) - binary file, not counted `
+      : `${file.name} (${kb} KB) `;
+
+    const remove = document.createElement('a');
+    remove.href = '#';
+    remove.textContent = 'remove';
+    remove.addEventListener('click', (event) => {
+      event.preventDefault();
+      files.splice(index, 1);
+      renderFiles();
+      scheduleRecount();
+    });
+    item.appendChild(remove);
+    fileList.appendChild(item);
+  });
+}
+
+function contentText(): string {
+  const pasted = (document.getElementById('content-text') as HTMLTextAreaElement).value;
+  const fileTexts = files.filter(file => file.text !== null).map(file => file.text as string);
+  return [pasted, ...fileTexts].filter(text => text.length > 0).join('\n\n');
+}
+
+// Live status of the chat tab the popup was opened from, when it has a tracker
+async function tabStatus(): Promise<TrackerStatus | null> {
+  const tabId = parseInt(new URLSearchParams(window.location.search).get('tab') || '', 10);
+  if (isNaN(tabId)) return null;
+  try {
+    const response = await chrome.tabs.sendMessage(tabId, { type: 'GET_STATUS' });
+    return response?.success ? response.status : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+async function loadAlongside() {
+  alongside = [{ label: 'Nothing (new chat)', tokens: 0 }];
+
+  const status = await tabStatus();
+  if (status && !status.isLoading) {
+    alongside.push({
+      label: `Current tab: ${status.title || 'New chat'} (${status.totalTokens.toLocaleString()} tokens)`,
+      tokens: status.totalTokens,
+    });
+  }
+  for (const usage of await listRecentUsage()) {
+    const provider = PROVIDER_LABELS[usage.provider] || usage.provider;
+    alongside.push({
+      label: `${provider}: ${usage.title || usage.url} (${usage.totalTokens.toLocaleString()} tokens)`,
+      tokens: usage.totalTokens,
+    });
+  }
+
+  const select = document.getElementById('alongside') as HTMLSelectElement;
+  select.innerHTML = '';
+  alongside.forEach((entry, index) => select.add(new Option(entry.label, String(index))));
+  // Default to the tab the popup was opened from
+  select.value = status && !status.isLoading ? '1' : '0';
+}
+
+// Window for the user's forced plan, or the largest one the model offers
+function modelWindow(model: CatalogModel, settings: UserSettings): { tokens: number; plan: string } {
+  const override = settings.modelLimitOverrides[model.provider]?.[model.id];
+  if (override) return { tokens: override, plan: 'override' };
+
+  const forcedPlan = settings.planOverrides[model.provider];
+  if (forcedPlan && model.limits[forcedPlan] !== undefined) {
+    return { tokens: model.limits[forcedPlan], plan: forcedPlan };
+  }
+  const [plan, tokens] = Object.entries(model.limits).sort((a, b) => b[1] - a[1])[0];
+  return { tokens, plan };
+}
+
+function cell(text: string, className: string = ''): HTMLTableCellElement {
+  const td = document.createElement('td');
+  td.textContent = text;
+  if (className) td.className = className;
+  return td;
+}
+
+async function recount() {
+  const id = ++recountId;
+  const text = contentText();
+  const [catalog, settings] = await Promise.all([getCatalog(), getSettings()]);
+
+  // One count per encoding the catalog uses
+  const encodings = Array.from(new Set(catalog.models.map(model => resolveEncoding(model.encoding))));
+  const counts: { [encoding in EncodingId]?: number } = {};
+  for (const encoding of encodings) {
+    counts[encoding] = text ? await countTokens(text, encoding) : 0;
+  }
+  if (id !== recountId) return;
+
+  const selected = alongside[parseInt((document.getElementById('alongside') as HTMLSelectElement).value, 10)];
+  const existing = selected ? selected.tokens : 0;
+
+  document.getElementById('totals')!.textContent = [
+    `${text.length.toLocaleString()} characters`,
+    ...encodings.map(encoding => `${ENCODINGS[encoding].label} ${counts[encoding]!.toLocaleString()} tokens`),
+    ...(existing > 0 ? [`plus ${existing.toLocaleString()} already in the conversation`] : []),
+  ].join(' · ');
+
+  const rows = document.getElementById('model-rows')!;
+  rows.innerHTML = '';
+  for (const model of catalog.models) {
+    const tokens = counts[resolveEncoding(model.encoding)]!;
+    const limit = modelWindow(model, settings);
+    const percentage = (tokens / limit.tokens) * 100;
+    const total = tokens + existing;
+    // Over the buffer line is tight; over the window doesn't fit
+    const fits = total <= limit.tokens * (1 - settings.bufferPercentage)
+      ? { label: '✓ Fits', className: 'fits' }
+      : total <= limit.tokens
+        ? { label: '⚠ Tight', className: 'tight' }
+        : { label: '✗ Too large', className: 'overflow' };
+
+    const row = document.createElement('tr');
+    row.append(
+      cell(PROVIDER_LABELS[model.provider] || model.provider),
+      cell(model.id),
+      cell(`${limit.tokens.toLocaleString()} (${limit.plan})`, 'number'),
+      cell(tokens.toLocaleString(), 'number'),
+      cell(`${percentage < 0.1 && tokens > 0 ? '<0.1' : percentage.toFixed(1)}%`, 'number'),
+      cell(fits.label, fits.className)
+    );
+    rows.appendChild(row);
+  }
+}
+
+function scheduleRecount() {
+  if (recountTimeout) clearTimeout(recountTimeout);
+  recountTimeout = setTimeout(recount, RECOUNT_DELAY_MS);
+}
+
+document.addEventListener('DOMContentLoaded', async () => {
+  const dropZone = document.getElementById('drop-zone')!;
+  dropZone.addEventListener('dragover', (event) => {
+    event.preventDefault();
+    dropZone.classList.add('active');
+  });
+  dropZone.addEventListener('dragleave', () => dropZone.classList.remove('active'));
+  dropZone.addEventListener('drop', (event) => {
+    event.preventDefault();
+    dropZone.classList.remove('active');
+    addFiles(event.dataTransfer?.files || null);
+  });
+
+  const fileInput = document.getElementById('content-files') as HTMLInputElement;
+  fileInput.addEventListener('change', () => {
+    addFiles(fileInput.files);
+    fileInput.value = '';
+  });
+
+  document.getElementById('content-text')!.addEventListener('input', scheduleRecount);
+  document.getElementById('alongside')!.addEventListener('change', scheduleRecount);
+
+  await loadAlongside();
+  recount();
+});
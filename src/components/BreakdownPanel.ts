@@ -0,0 +1,222 @@
+import { MessageBreakdown, BreakdownSummary, IndicatorAction } from '../types';
+
+const ROLE_LABELS: { [role in MessageBreakdown['role']]: string } = {
+  user: 'You',
+  assistant: 'AI',
+  draft: 'Draft',
+  attachment: '📎',
+  tool: '🛠',
+  project: '📁',
+};
+
+const ROLE_COLORS: { [role in MessageBreakdown['role']]: string } = {
+  user: '#1e88e5',
+  assistant: '#8e24aa',
+  draft: '#757575',
+  attachment: '#ef6c00',
+  tool: '#00897b',
+  project: '#6d4c41',
+};
+
+// Scroll a message into view and flash an outline so it's easy to spot
+function revealMessage(element: Element) {
+  const target = element as HTMLElement;
+  target.scrollIntoView({ behavior: 'smooth', block: 'start' });
+
+  const previousOutline = target.style.outline;
+  target.style.outline = '3px solid #ff9800';
+  setTimeout(() => {
+    target.style.outline = previousOutline;
+  }, 1500);
+}
+
+export function createBreakdownPanel() {
+  const panel = document.createElement('div');
+  panel.id = 'context-breakdown';
+  panel.style.cssText = `
+    position: absolute;
+    top: calc(100% + 8px);
+    right: 0;
+    width: 320px;
+    max-height: 360px;
+    overflow-y: auto;
+    background: white;
+    color: #333;
+    border: 1px solid #e0e0e0;
+    border-radius: 8px;
+    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+    font-size: 12px;
+    font-weight: 400;
+    text-align: left;
+    display: none;
+    cursor: default;
+  `;
+
+  // Buttons shown under the header, set by the tracker
+  let actions: IndicatorAction[] = [];
+
+  const render = (messages: MessageBreakdown[], maxTokens: number, summary: BreakdownSummary) => {
+    panel.innerHTML = '';
+
+    const header = document.createElement('div');
+    header.style.cssText = `
+      padding: 8px 10px;
+      font-weight: 600;
+      border-bottom: 1px solid #eee;
+      position: sticky;
+      top: 0;
+      background: white;
+    `;
+    header.textContent = `Token breakdown (${messages.length} items)`;
+    panel.appendChild(header);
+
+    if (actions.length > 0) {
+      const actionRow = document.createElement('div');
+      actionRow.style.cssText = 'display: flex; flex-wrap: wrap; gap: 6px; padding: 6px 10px; border-bottom: 1px solid #eee;';
+      actions.forEach(action => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = action.label;
+        button.title = action.title;
+        button.style.cssText = `
+          font: inherit;
+          padding: 3px 8px;
+          border: 1px solid #bdbdbd;
+          border-radius: 4px;
+          background: white;
+          color: #333;
+          cursor: pointer;
+        `;
+        button.addEventListener('click', () => action.run());
+        actionRow.appendChild(button);
+      });
+      panel.appendChild(actionRow);
+    }
+
+    // Bucket totals: chat text, project baseline, files, reasoning/tools and hidden overhead
+    const sum = (roles: MessageBreakdown['role'][]) => messages
+      .filter(message => roles.includes(message.role))
+      .reduce((total, message) => total + message.tokens, 0);
+    const buckets = document.createElement('div');
+    buckets.style.cssText = 'padding: 6px 10px; border-bottom: 1px solid #eee; opacity: 0.8;';
+    buckets.textContent = [
+      `Chat ${sum(['user', 'assistant', 'draft']).toLocaleString()}`,
+      `Project ${sum(['project']).toLocaleString()}`,
+      `Files ${sum(['attachment']).toLocaleString()}`,
+      `Tools & reasoning ${sum(['tool']).toLocaleString()}`,
+      `Hidden ~${summary.hiddenTokens.toLocaleString()}`,
+    ].join(' · ');
+    panel.appendChild(buckets);
+
+    // Edited and regenerated branches that aren't in the active path
+    const { branches } = summary;
+    if (branches.inactiveCount > 0 || branches.unseenCount > 0) {
+      const branchLine = document.createElement('div');
+      branchLine.style.cssText = 'padding: 6px 10px; border-bottom: 1px solid #eee; opacity: 0.8;';
+      const parts = [];
+      if (branches.inactiveCount > 0) {
+        parts.push(`${branches.inactiveTokens.toLocaleString()} tokens in ${branches.inactiveCount} (not in context)`);
+      }
+      if (branches.unseenCount > 0) {
+        parts.push(`${branches.unseenCount} not viewed yet`);
+      }
+      branchLine.textContent = `🌿 Other branches: ${parts.join(' · ')}`;
+      panel.appendChild(branchLine);
+    }
+
+    if (messages.length === 0) {
+      const empty = document.createElement('div');
+      empty.style.cssText = 'padding: 10px; opacity: 0.7;';
+      empty.textContent = 'No messages counted yet.';
+      panel.appendChild(empty);
+      return;
+    }
+
+    let turn = 0;
+    messages.forEach(message => {
+      const share = maxTokens > 0 ? (message.tokens / maxTokens) * 100 : 0;
+
+      const row = document.createElement('div');
+      row.style.cssText = `
+        padding: 6px 10px;
+        border-bottom: 1px solid #f5f5f5;
+        cursor: pointer;
+      `;
+      row.title = 'Scroll to this message';
+      row.addEventListener('mouseenter', () => { row.style.background = '#f5f5f5'; });
+      row.addEventListener('mouseleave', () => { row.style.background = ''; });
+      row.addEventListener('click', () => revealMessage(message.element));
+
+      const line = document.createElement('div');
+      line.style.cssText = 'display: flex; gap: 6px; align-items: baseline;';
+
+      const label = document.createElement('span');
+      label.style.cssText = `font-weight: 600; color: ${ROLE_COLORS[message.role]}; min-width: 52px;`;
+      // Only chat turns are numbered
+      label.textContent = message.role === 'user' || message.role === 'assistant'
+        ? `#${++turn} ${ROLE_LABELS[message.role]}`
+        : ROLE_LABELS[message.role];
+      // Which sibling branch is active, e.g. "‹2/3›"
+      if (message.branch) {
+        label.textContent += ` ‹${message.branch.index}/${message.branch.total}›`;
+        label.title = `Branch ${message.branch.index} of ${message.branch.total}; only this one is in context`;
+      }
+
+      const preview = document.createElement('span');
+      preview.style.cssText = 'flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; opacity: 0.8;';
+      preview.textContent = message.preview;
+
+      const count = document.createElement('span');
+      count.style.cssText = 'white-space: nowrap; font-variant-numeric: tabular-nums;';
+      // Estimated counts are marked with "~", length approximations with "≈"
+      const isApproximate = message.source === 'approximate';
+      const prefix = message.estimated ? '~' : isApproximate ? '≈' : '';
+      count.textContent = `${prefix}${message.tokens.toLocaleString()} (${share < 0.1 ? '<0.1' : share.toFixed(1)}%)`;
+      if (message.estimated) {
+        count.title = 'Estimated - contents not visible to the tokenizer';
+      } else if (isApproximate) {
+        count.title = 'Estimated offline from the text\'s scripts - the tokenizer was unavailable';
+      }
+
+      line.append(label, preview, count);
+
+      // Mini bar showing the message's share of the window
+      const bar = document.createElement('div');
+      bar.style.cssText = `
+        height: 3px;
+        margin-top: 4px;
+        background: #eee;
+        border-radius: 2px;
+        overflow: hidden;
+      `;
+      const fill = document.createElement('div');
+      fill.style.cssText = `
+        height: 100%;
+        width: ${Math.min(share, 100)}%;
+        min-width: 1px;
+        background: ${ROLE_COLORS[message.role]};
+      `;
+      bar.appendChild(fill);
+
+      row.append(line, bar);
+      panel.appendChild(row);
+    });
+  };
+
+  const isOpen = () => panel.style.display !== 'none';
+
+  const toggle = (open: boolean = !isOpen()) => {
+    panel.style.display = open ? 'block' : 'none';
+  };
+
+  const setActions = (list: IndicatorAction[]) => {
+    actions = list;
+  };
+
+  return Object.assign(panel, {
+    render,
+    setActions,
+    toggle,
+    isOpen,
+  });
+}
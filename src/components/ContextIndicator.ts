@@ -1,4 +1,51 @@
-export function createContextIndicator(provider: 'claude' | 'chatgpt' = 'claude') {
+import { formatTokenCount } from '../utils/format';
+import { BUFFER_PERCENTAGE } from '../utils/constants';
+import { createBreakdownPanel } from './BreakdownPanel';
+import { createSparkline } from './Sparkline';
+import { MessageBreakdown, IndicatorDetails, BreakdownSummary, IndicatorAction, CountAccuracy } from '../types';
+
+const DEFAULT_DETAILS: IndicatorDetails = {
+  bufferPercentage: BUFFER_PERCENTAGE,
+  estimatedTokens: 0,
+  attachmentCount: 0,
+  attachmentTokens: 0,
+  toolTokens: 0,
+  droppedReasoningCount: 0,
+  hiddenTokens: 0,
+  hiddenItems: [],
+  projectTokens: 0,
+  transcriptSource: 'dom',
+  branches: { inactiveTokens: 0, inactiveCount: 0, unseenCount: 0 },
+  forecast: null,
+  accuracy: {
+    sources: { exact: 0, cached: 0, approximate: 0, estimated: 0 },
+    approximateTokens: 0,
+  },
+};
+
+// Raw error text stays plain text on one line; the full message is in the console
+const MAX_REASON_LENGTH = 120;
+
+function reasonText(error: string): string {
+  const line = error.replace(/\s+/g, ' ').trim();
+  return line.length > MAX_REASON_LENGTH ? `${line.slice(0, MAX_REASON_LENGTH - 1)}…` : line;
+}
+
+// Why the total isn't exact, one line per kind of inexact count
+function accuracyReasons(accuracy: CountAccuracy): string[] {
+  const reasons: string[] = [];
+  const { approximate, estimated } = accuracy.sources;
+  if (approximate > 0) {
+    const cause = accuracy.approximateReason ? `tokenizer unavailable: ${reasonText(accuracy.approximateReason)}` : 'tokenizer unavailable';
+    reasons.push(`${approximate} item(s), ≈ ${accuracy.approximateTokens.toLocaleString()} tokens, estimated offline from the text's scripts (${cause})`);
+  }
+  if (estimated > 0) {
+    reasons.push(`${estimated} item(s) estimated from size, pages or duration because their contents aren't visible`);
+  }
+  return reasons;
+}
+
+export function createContextIndicator(systemPromptNote: string) {
   const container = document.createElement('div');
   container.id = 'ai-context-indicator';
 
@@ -45,6 +92,21 @@ export function createContextIndicator(provider: 'claude' | 'chatgpt' = 'claude'
     opacity: 0.7;
   `;
 
+  // Shown when part of the total isn't tokenizer output; clicking retries approximated counts
+  const approxBadge = document.createElement('span');
+  approxBadge.id = 'token-approx';
+  approxBadge.textContent = 'approx.';
+  approxBadge.style.cssText = `
+    display: none;
+    font-size: 10px;
+    font-weight: 600;
+    padding: 1px 6px;
+    border-radius: 8px;
+    background: #fff8e1;
+    border: 1px solid #ffb300;
+    color: #8d6e00;
+  `;
+
   // Create tooltip
   const tooltip = document.createElement('div');
   tooltip.id = 'context-tooltip';
@@ -63,28 +125,75 @@ export function createContextIndicator(provider: 'claude' | 'chatgpt' = 'claude'
     white-space: pre-line;
   `;
 
+  // Page-scraped text (project names, error messages) ends up in here, so it's never parsed as HTML
+  const setTooltip = (heading: string, body: string = '') => {
+    const strong = document.createElement('strong');
+    strong.textContent = heading;
+    tooltip.replaceChildren(strong, body);
+  };
+
+  // Create per-message breakdown panel (opened by clicking the indicator)
+  const breakdownPanel = createBreakdownPanel();
+
+  // Context growth over turns
+  const sparkline = createSparkline();
+
   // Assemble components
   mainDisplay.appendChild(tokenDisplay);
   mainDisplay.appendChild(percentDisplay);
+  mainDisplay.appendChild(approxBadge);
   container.appendChild(mainDisplay);
+  container.appendChild(sparkline);
   container.appendChild(tooltip);
+  container.appendChild(breakdownPanel);
 
-  // Add hover behavior
+  // Add hover behavior - the tooltip stays hidden while the panel is open
   container.addEventListener('mouseenter', () => {
-    tooltip.style.display = 'block';
+    if (!breakdownPanel.isOpen()) {
+      tooltip.style.display = 'block';
+    }
   });
 
   container.addEventListener('mouseleave', () => {
     tooltip.style.display = 'none';
   });
 
+  let retryExact: (() => void) | null = null;
+  let canRetry = false;
+  approxBadge.addEventListener('click', (event) => {
+    if (!canRetry || !retryExact) return;
+    event.stopPropagation();
+    approxBadge.textContent = 'retrying…';
+    retryExact();
+  });
+
+  // Toggle the breakdown panel; clicks inside the panel are handled by its rows
+  container.addEventListener('click', (event) => {
+    if (breakdownPanel.contains(event.target as Node)) return;
+    breakdownPanel.toggle();
+    tooltip.style.display = 'none';
+  });
+
+  // True while the last known count from history is shown during a recount
+  let showingCached = false;
+
   // Update function
-  const update = (currentTokens: number, maxTokens: number, isLoading: boolean = false) => {
-    // Show loading state
+  const update = (
+    currentTokens: number,
+    maxTokens: number,
+    isLoading: boolean = false,
+    details: IndicatorDetails = DEFAULT_DETAILS
+  ) => {
+    // Show loading state (a cached count from an earlier visit stays visible)
+    if (isLoading && showingCached) {
+      return;
+    }
+    showingCached = false;
     if (isLoading) {
       tokenDisplay.textContent = 'Loading...';
       percentDisplay.textContent = '';
-      tooltip.innerHTML = '<strong>Updating context window...</strong>';
+      approxBadge.style.display = 'none';
+      setTooltip('Updating context window...');
       container.style.backgroundColor = '#f5f5f5';
       container.style.borderColor = '#bdbdbd';
       tokenDisplay.style.color = '#757575';
@@ -94,33 +203,84 @@ export function createContextIndicator(provider: 'claude' | 'chatgpt' = 'claude'
 
     const percentage = Math.round((currentTokens / maxTokens) * 100);
     const remaining = maxTokens - currentTokens;
+    // Warn once usage eats into the safety buffer
+    const warnAt = Math.round((1 - details.bufferPercentage) * 100);
+    // Confidence: how much of the total is estimated rather than tokenized
+    const estimatedShare = currentTokens > 0 ? Math.round((details.estimatedTokens / currentTokens) * 100) : 0;
 
     // Always show approx symbol since count may not include all messages/system prompts
-    tokenDisplay.textContent = `≈ ${currentTokens.toLocaleString()} / ${maxTokens.toLocaleString()}`;
-    percentDisplay.textContent = `(${percentage}%)`;
+    tokenDisplay.textContent = `≈ ${formatTokenCount(currentTokens, maxTokens)} / ${formatTokenCount(maxTokens, maxTokens)}`;
+    const turnsLabel = details.forecast ? ` · ~${details.forecast.turnsRemaining.toLocaleString()} turns` : '';
+    percentDisplay.textContent = details.estimatedTokens > 0
+      ? `(${percentage}% · ${estimatedShare}% est.${turnsLabel})`
+      : `(${percentage}%${turnsLabel})`;
+
+    const reasons = accuracyReasons(details.accuracy);
+    canRetry = details.accuracy.sources.approximate > 0;
+    approxBadge.textContent = 'approx.';
+    approxBadge.style.display = reasons.length > 0 ? 'inline-block' : 'none';
+    approxBadge.style.cursor = canRetry ? 'pointer' : 'default';
+    approxBadge.title = reasons.join('\n') + (canRetry ? '\nClick to retry the exact count' : '');
+    const accuracyLines = reasons.length > 0
+      ? `\n⚠️ Not exact:${reasons.map(reason => `\n   · ${reason}`).join('')}`
+      : '';
+
+    // Exchanges left at the recent pace, and what the draft being typed will cost
+    const forecast = details.forecast;
+    const forecastNote = forecast
+      ? ` (~${forecast.turnsRemaining.toLocaleString()} more exchanges at ≈ ${forecast.averageExchangeTokens.toLocaleString()} each)`
+      : '';
+    const draftLine = forecast && forecast.draftTokens > 0
+      ? `\n✏️ Your draft adds ${forecast.draftTokens.toLocaleString()} tokens, the expected reply ≈ ${forecast.expectedReplyTokens.toLocaleString()}`
+      : '';
+
+    const projectLine = details.projectTokens > 0
+      ? `\n📁 Project baseline${details.projectName ? ` (${details.projectName})` : ''}: ≈ ${details.projectTokens.toLocaleString()} tokens`
+      : '';
+    const attachmentLines = details.attachmentCount > 0
+      ? `\n📎 Attachments: ${details.attachmentCount} (≈ ${details.attachmentTokens.toLocaleString()} tokens)`
+      : '';
+    const toolLines = details.toolTokens > 0
+      ? `\n🛠 Tools & reasoning: ≈ ${details.toolTokens.toLocaleString()} tokens`
+      : '';
+    const droppedLine = details.droppedReasoningCount > 0
+      ? `\n💭 ${details.droppedReasoningCount} earlier reasoning block(s) dropped from context`
+      : '';
+    // Visible transcript + estimated hidden overhead = total
+    const visibleTokens = currentTokens - details.hiddenTokens;
+    const hiddenLines = details.hiddenTokens > 0
+      ? `\n👁 Visible ≈ ${visibleTokens.toLocaleString()} + hidden ≈ ${details.hiddenTokens.toLocaleString()} = ${currentTokens.toLocaleString()}` +
+        details.hiddenItems.map(item => `\n   · ${item.label}: ≈ ${item.tokens.toLocaleString()}`).join('')
+      : '';
+    const branchLine = details.branches.inactiveCount > 0
+      ? `\n🌿 Other branches: ≈ ${details.branches.inactiveTokens.toLocaleString()} tokens (not in context)`
+      : '';
+    const sourceLine = details.transcriptSource === 'network'
+      ? '\n📡 Counting the conversation captured from network traffic'
+      : '';
+    const estimateLine = details.estimatedTokens > 0
+      ? `\n🎯 Estimated: ≈ ${details.estimatedTokens.toLocaleString()} tokens (${estimatedShare}% of total)`
+      : '';
 
     // Update tooltip with permanent notes
-    const systemPromptNote = provider === 'chatgpt'
-      ? 'System prompts can add 2K-5K tokens'
-      : 'System prompts can add 10K-15K tokens';
-    tooltip.innerHTML = `
-<strong>Context Window Usage</strong>
+    setTooltip('Context Window Usage', `
 Current: ≈ ${currentTokens.toLocaleString()} tokens
 Maximum: ${maxTokens.toLocaleString()} tokens
-Remaining: ≈ ${remaining.toLocaleString()} tokens
-Usage: ≈ ${percentage}%
-${percentage > 90 ? '\n⚠️ Approaching context limit!' : ''}
+Remaining: ≈ ${remaining.toLocaleString()} tokens${forecastNote}${draftLine}
+Usage: ≈ ${percentage}%${hiddenLines}${projectLine}${attachmentLines}${toolLines}${droppedLine}${branchLine}${estimateLine}${accuracyLines}${sourceLine}
+${percentage > warnAt ? '\n⚠️ Approaching context limit!' : ''}
+
+🔍 Click for a per-message breakdown
 
 📝 Note: Count may not include all messages if chat history isn\'t fully loaded.
-💡 ${systemPromptNote}
-    `.trim();
+💡 ${systemPromptNote}`);
 
     // Update colors based on usage
     let bgColor = '#e8f5e9'; // Green
     let borderColor = '#4caf50';
     let textColor = '#2e7d32';
 
-    if (percentage > 90) {
+    if (percentage > warnAt) {
       // Red - Critical
       bgColor = '#ffebee';
       borderColor = '#f44336';
@@ -141,7 +301,45 @@ ${percentage > 90 ? '\n⚠️ Approaching context limit!' : ''}
     percentDisplay.style.color = textColor;
   };
 
+  // Last known count from an earlier visit, shown until the recount finishes
+  const showCached = (currentTokens: number, maxTokens: number, savedAt: number) => {
+    const percentage = Math.round((currentTokens / maxTokens) * 100);
+    tokenDisplay.textContent = `≈ ${formatTokenCount(currentTokens, maxTokens)} / ${formatTokenCount(maxTokens, maxTokens)}`;
+    percentDisplay.textContent = `(${percentage}% · last known)`;
+    setTooltip(`Last known count from ${new Date(savedAt).toLocaleString()}`, '\nRecounting...');
+    container.style.backgroundColor = '#f5f5f5';
+    container.style.borderColor = '#bdbdbd';
+    tokenDisplay.style.color = '#757575';
+    percentDisplay.style.color = '#757575';
+    approxBadge.style.display = 'none';
+    showingCached = true;
+  };
+
+  // Forget the previous conversation's cached count and chart
+  const resetHistory = () => {
+    showingCached = false;
+    sparkline.render([], 0, '');
+  };
+
+  // Growth chart: running totals after each turn
+  const setHistory = (values: number[], maxTokens: number) => {
+    sparkline.render(values, maxTokens, tokenDisplay.style.color || '#757575');
+  };
+
+  // Breakdown update function
+  const setBreakdown = (messages: MessageBreakdown[], maxTokens: number, summary: BreakdownSummary) => {
+    breakdownPanel.render(messages, maxTokens, summary);
+  };
 
+  // Actions offered in the breakdown panel, e.g. continuing in a new chat
+  const setActions = (actions: IndicatorAction[]) => {
+    breakdownPanel.setActions(actions);
+  };
+
+  // Called when the approx. badge is clicked while some counts are approximations
+  const setRetryHandler = (handler: () => void) => {
+    retryExact = handler;
+  };
 
   // Remove function
   const removeIndicator = () => {
@@ -152,6 +350,12 @@ ${percentage > 90 ? '\n⚠️ Approaching context limit!' : ''}
   // Don't override native DOM methods
   return Object.assign(container, {
     update,
+    showCached,
+    setHistory,
+    resetHistory,
+    setBreakdown,
+    setActions,
+    setRetryHandler,
     removeIndicator,
   });
 }
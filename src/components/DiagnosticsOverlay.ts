@@ -0,0 +1,285 @@
+import { DiagnosticReport, SelectorGroupHealth } from '../types';
+import { formatDiagnosticReport } from '../utils/diagnostics';
+
+// Report and matched nodes per group, re-read while the overlay is open
+export interface DiagnosticsSnapshot {
+  report: DiagnosticReport;
+  nodes: { [group: string]: Element[] };
+}
+
+const REFRESH_MS = 1000;
+// Outlines per group; message lists can be long
+const MAX_HIGHLIGHTS = 40;
+
+const GROUP_COLORS: { [group: string]: string } = {
+  chatContainer: '#2196f3',
+  userMessages: '#4caf50',
+  assistantMessages: '#9c27b0',
+  inputField: '#ff9800',
+  modelSelector: '#e91e63',
+  planIndicators: '#795548',
+};
+
+function panelButton(label: string): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = label;
+  button.style.cssText = `
+    font: inherit;
+    padding: 4px 10px;
+    border-radius: 6px;
+    cursor: pointer;
+    border: 1px solid #bdbdbd;
+    background: white;
+    color: #333;
+  `;
+  return button;
+}
+
+function statusIcon(health: SelectorGroupHealth): string {
+  if (!health.configured) return '➖';
+  return health.matched ? '✅' : '❌';
+}
+
+// Panel listing which selector of each group matched, plus outlines around the matched nodes
+export function createDiagnosticsOverlay() {
+  const panel = document.createElement('div');
+  panel.id = 'ai-context-diagnostics';
+  panel.style.cssText = `
+    position: fixed;
+    left: 20px;
+    bottom: 20px;
+    width: 400px;
+    max-width: calc(100vw - 40px);
+    max-height: 60vh;
+    overflow-y: auto;
+    background: white;
+    color: #333;
+    border: 2px solid #607d8b;
+    border-radius: 8px;
+    padding: 10px 12px;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    font-size: 12px;
+    z-index: 10001;
+    box-shadow: 0 4px 16px rgba(0, 0, 0, 0.2);
+    display: none;
+  `;
+
+  const title = document.createElement('div');
+  title.style.cssText = `
+    font-weight: 600;
+    font-size: 13px;
+    margin-bottom: 6px;
+  `;
+  title.textContent = '🩺 Selector diagnostics';
+
+  const summary = document.createElement('div');
+  summary.style.cssText = `
+    white-space: pre-line;
+    margin-bottom: 8px;
+  `;
+
+  const groupList = document.createElement('div');
+
+  const buttons = document.createElement('div');
+  buttons.style.cssText = `
+    display: flex;
+    gap: 6px;
+    align-items: center;
+    margin-top: 8px;
+  `;
+  const copyButton = panelButton('Copy report');
+  const closeButton = panelButton('Close');
+  const copyStatus = document.createElement('span');
+  copyStatus.style.cssText = 'opacity: 0.7;';
+  buttons.append(copyButton, closeButton, copyStatus);
+
+  // Shown when the clipboard refuses the copy, so the report can be selected by hand
+  const reportText = document.createElement('textarea');
+  reportText.readOnly = true;
+  reportText.rows = 8;
+  reportText.style.cssText = `
+    display: none;
+    width: 100%;
+    box-sizing: border-box;
+    margin-top: 8px;
+    font-family: ui-monospace, Menlo, monospace;
+    font-size: 11px;
+    resize: vertical;
+  `;
+
+  panel.append(title, summary, groupList, buttons, reportText);
+
+  // Outlines sit in their own layer so they never take clicks from the page
+  const highlights = document.createElement('div');
+  highlights.id = 'ai-context-diagnostics-highlights';
+  highlights.style.cssText = `
+    position: fixed;
+    inset: 0;
+    pointer-events: none;
+    z-index: 9999;
+    display: none;
+  `;
+
+  let read: (() => DiagnosticsSnapshot) | null = null;
+  let snapshot: DiagnosticsSnapshot | null = null;
+  let refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Groups the user expanded or collapsed survive the periodic re-render
+  const expanded: Map<string, boolean> = new Map();
+
+  const renderGroups = (groups: SelectorGroupHealth[]) => {
+    groupList.innerHTML = '';
+    for (const health of groups) {
+      const row = document.createElement('details');
+      row.style.cssText = 'margin-bottom: 4px;';
+      // Failing groups start expanded
+      row.open = expanded.get(health.group) ?? (health.configured && !health.matched);
+      row.addEventListener('toggle', () => expanded.set(health.group, row.open));
+
+      const heading = document.createElement('summary');
+      heading.style.cssText = 'cursor: pointer;';
+      const swatch = document.createElement('span');
+      swatch.style.cssText = `
+        display: inline-block;
+        width: 8px;
+        height: 8px;
+        margin: 0 4px;
+        border-radius: 2px;
+        background: ${GROUP_COLORS[health.group] || '#607d8b'};
+      `;
+      const label = document.createElement('span');
+      label.textContent = `${health.group}: ` + (health.configured
+        ? health.matched ? `${health.count} node${health.count === 1 ? '' : 's'} via ${health.matched}` : 'no selector matched'
+        : 'not configured for this site');
+      heading.append(statusIcon(health), swatch, label);
+      row.appendChild(heading);
+
+      for (const probe of health.probes) {
+        const line = document.createElement('div');
+        line.style.cssText = `
+          font-family: ui-monospace, Menlo, monospace;
+          font-size: 11px;
+          padding-left: 22px;
+          opacity: ${probe.count > 0 ? '1' : '0.6'};
+          word-break: break-all;
+        `;
+        line.textContent = `${probe.invalid ? 'invalid' : probe.count} · ${probe.selector}`;
+        row.appendChild(line);
+      }
+      groupList.appendChild(row);
+    }
+  };
+
+  const renderHighlights = () => {
+    highlights.innerHTML = '';
+    if (!snapshot) return;
+    for (const [group, nodes] of Object.entries(snapshot.nodes)) {
+      const color = GROUP_COLORS[group] || '#607d8b';
+      for (const node of nodes.slice(0, MAX_HIGHLIGHTS)) {
+        const rect = node.getBoundingClientRect();
+        if (rect.width === 0 && rect.height === 0) continue;
+
+        const box = document.createElement('div');
+        box.style.cssText = `
+          position: absolute;
+          left: ${rect.left}px;
+          top: ${rect.top}px;
+          width: ${rect.width}px;
+          height: ${rect.height}px;
+          border: 2px solid ${color};
+          box-sizing: border-box;
+        `;
+        const tag = document.createElement('span');
+        tag.style.cssText = `
+          position: absolute;
+          top: 0;
+          left: 0;
+          background: ${color};
+          color: white;
+          font: 10px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          padding: 0 3px;
+        `;
+        tag.textContent = group;
+        box.appendChild(tag);
+        highlights.appendChild(box);
+      }
+    }
+  };
+
+  const refresh = () => {
+    if (!read) return;
+    snapshot = read();
+    const { report } = snapshot;
+    const model = report.model.detected
+      ? `✅ Model: ${report.model.id}`
+      : `❌ Model not detected, using ${report.model.id}`;
+    const plan = `${report.plan.source === 'override' ? '🔒' : '✅'} Plan: ${report.plan.id}` +
+      (report.plan.source === 'override' ? ' (forced in options)' : ' (detected)');
+    const tracker = report.tracker.isLoading
+      ? '⏳ Indicator is still loading'
+      : `Indicator: ${report.tracker.totalTokens.toLocaleString()} / ${report.tracker.maxTokens.toLocaleString()} tokens`;
+    summary.textContent = `${model}${report.model.label ? ` (label "${report.model.label}")` : ''}\n${plan}\n${tracker}`;
+    renderGroups(report.groups);
+    renderHighlights();
+  };
+
+  // Scrolling moves the nodes; outlines follow without re-running the selectors
+  const onScroll = () => renderHighlights();
+
+  copyButton.addEventListener('click', async () => {
+    if (!snapshot) return;
+    try {
+      await navigator.clipboard.writeText(formatDiagnosticReport(snapshot.report));
+      copyStatus.textContent = 'Copied';
+      reportText.style.display = 'none';
+    } catch (error) {
+      copyStatus.textContent = 'Copy failed - select the report below';
+      reportText.value = formatDiagnosticReport(snapshot.report);
+      reportText.style.display = 'block';
+      reportText.focus();
+      reportText.select();
+    }
+  });
+
+  const hide = () => {
+    panel.style.display = 'none';
+    highlights.style.display = 'none';
+    highlights.innerHTML = '';
+    if (refreshTimer) {
+      clearInterval(refreshTimer);
+      refreshTimer = null;
+    }
+    window.removeEventListener('scroll', onScroll, true);
+    window.removeEventListener('resize', onScroll);
+  };
+  closeButton.addEventListener('click', hide);
+
+  const show = (reader: () => DiagnosticsSnapshot) => {
+    read = reader;
+    if (!panel.isConnected) document.body.append(highlights, panel);
+    panel.style.display = 'block';
+    highlights.style.display = 'block';
+    copyStatus.textContent = '';
+    reportText.style.display = 'none';
+    refresh();
+    if (!refreshTimer) {
+      refreshTimer = setInterval(refresh, REFRESH_MS);
+      window.addEventListener('scroll', onScroll, true);
+      window.addEventListener('resize', onScroll);
+    }
+  };
+
+  const remove = () => {
+    hide();
+    panel.remove();
+    highlights.remove();
+  };
+
+  return Object.assign(panel, {
+    show,
+    hide,
+    remove,
+    isOpen: () => panel.style.display !== 'none',
+  });
+}
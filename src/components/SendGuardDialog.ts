@@ -0,0 +1,137 @@
+import { SendGuardVerdict } from '../types';
+
+export interface SendGuardActions {
+  sendAnyway: () => void;
+  trimDraft: () => void;
+  newChat: () => void;
+}
+
+function actionButton(label: string, primary: boolean = false): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = label;
+  button.style.cssText = `
+    font: inherit;
+    padding: 6px 12px;
+    border-radius: 6px;
+    cursor: pointer;
+    border: 1px solid ${primary ? '#f44336' : '#bdbdbd'};
+    background: ${primary ? '#ffebee' : 'white'};
+    color: ${primary ? '#c62828' : '#333'};
+  `;
+  return button;
+}
+
+// Shown above the composer when a send would overflow the context window
+export function createSendGuardDialog() {
+  const dialog = document.createElement('div');
+  dialog.id = 'ai-context-send-guard';
+  dialog.setAttribute('role', 'alertdialog');
+  dialog.style.cssText = `
+    position: fixed;
+    left: 50%;
+    bottom: 120px;
+    transform: translateX(-50%);
+    width: 420px;
+    max-width: calc(100vw - 32px);
+    background: white;
+    color: #333;
+    border: 2px solid #f44336;
+    border-radius: 8px;
+    padding: 12px 14px;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    font-size: 13px;
+    z-index: 10001;
+    box-shadow: 0 4px 16px rgba(0, 0, 0, 0.2);
+    display: none;
+  `;
+
+  const title = document.createElement('div');
+  title.style.cssText = `
+    font-weight: 600;
+    margin-bottom: 6px;
+  `;
+
+  const body = document.createElement('div');
+  body.style.cssText = `
+    white-space: pre-line;
+    margin-bottom: 10px;
+  `;
+
+  const buttons = document.createElement('div');
+  buttons.style.cssText = `
+    display: flex;
+    flex-wrap: wrap;
+    gap: 6px;
+  `;
+  const sendButton = actionButton('Send anyway', true);
+  const trimButton = actionButton('Trim draft');
+  const newChatButton = actionButton('Start new chat with summary');
+  const cancelButton = actionButton('Cancel');
+  buttons.append(sendButton, trimButton, newChatButton, cancelButton);
+
+  dialog.append(title, body, buttons);
+
+  let actions: SendGuardActions | null = null;
+
+  const hide = () => {
+    dialog.style.display = 'none';
+    actions = null;
+  };
+
+  // Each action closes the dialog first so a re-sent message isn't held again
+  const run = (pick: (current: SendGuardActions) => () => void) => () => {
+    const current = actions;
+    hide();
+    if (current) pick(current)();
+  };
+  sendButton.addEventListener('click', run(current => current.sendAnyway));
+  trimButton.addEventListener('click', run(current => current.trimDraft));
+  newChatButton.addEventListener('click', run(current => current.newChat));
+  cancelButton.addEventListener('click', hide);
+  dialog.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') hide();
+  });
+
+  // The same dialog shows the verdict with its actions, or a notice with only a close button
+  const open = (heading: string, withActions: boolean) => {
+    title.textContent = heading;
+    [sendButton, trimButton, newChatButton].forEach(button => {
+      button.style.display = withActions ? '' : 'none';
+    });
+    cancelButton.textContent = withActions ? 'Cancel' : 'Close';
+    dialog.style.display = 'block';
+    cancelButton.focus();
+  };
+
+  const show = (verdict: SendGuardVerdict, handlers: SendGuardActions) => {
+    actions = handlers;
+    const projected = verdict.contextTokens + verdict.draftTokens + verdict.replyReserve;
+    const share = Math.round((verdict.limitTokens / verdict.maxTokens) * 100);
+    body.textContent =
+      `Context ≈ ${verdict.contextTokens.toLocaleString()} + draft ≈ ${verdict.draftTokens.toLocaleString()}` +
+      ` + reply reserve ${verdict.replyReserve.toLocaleString()} = ${projected.toLocaleString()} tokens,` +
+      ` over the ${verdict.limitTokens.toLocaleString()}-token limit (${share}% of ${verdict.maxTokens.toLocaleString()}).`;
+
+    trimButton.disabled = verdict.allowedDraftTokens <= 0;
+    trimButton.style.opacity = trimButton.disabled ? '0.5' : '1';
+    trimButton.textContent = trimButton.disabled
+      ? 'Trim draft'
+      : `Trim draft to ≈ ${verdict.allowedDraftTokens.toLocaleString()} tokens`;
+
+    open('⚠️ This message may not fit in the context window', true);
+  };
+
+  const notify = (message: string) => {
+    actions = null;
+    body.textContent = message;
+    open('⚠️ Couldn\'t send the message', false);
+  };
+
+  return Object.assign(dialog, {
+    show,
+    notify,
+    hide,
+    isOpen: () => dialog.style.display !== 'none',
+  });
+}
@@ -0,0 +1,53 @@
+// Tiny SVG line chart of context growth over turns
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const WIDTH = 120;
+const HEIGHT = 20;
+
+export function createSparkline() {
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('width', String(WIDTH));
+  svg.setAttribute('height', String(HEIGHT));
+  svg.setAttribute('viewBox', `0 0 ${WIDTH} ${HEIGHT}`);
+  svg.style.cssText = `
+    display: none;
+    margin: 4px auto 0;
+    overflow: visible;
+  `;
+
+  // Dashed line at the context limit
+  const limit = document.createElementNS(SVG_NS, 'line');
+  limit.setAttribute('x1', '0');
+  limit.setAttribute('x2', String(WIDTH));
+  limit.setAttribute('y1', '0');
+  limit.setAttribute('y2', '0');
+  limit.setAttribute('stroke', '#bdbdbd');
+  limit.setAttribute('stroke-dasharray', '2 2');
+
+  const line = document.createElementNS(SVG_NS, 'polyline');
+  line.setAttribute('fill', 'none');
+  line.setAttribute('stroke-width', '1.5');
+  line.setAttribute('stroke-linejoin', 'round');
+
+  svg.append(limit, line);
+
+  // Values are running totals; the y axis spans 0..max so the line shows how full the window is
+  const render = (values: number[], max: number, color: string) => {
+    if (values.length < 2 || max <= 0) {
+      svg.style.display = 'none';
+      return;
+    }
+
+    const step = WIDTH / (values.length - 1);
+    const points = values.map((value, i) => {
+      const y = HEIGHT - (Math.min(value, max) / max) * HEIGHT;
+      return `${(i * step).toFixed(1)},${y.toFixed(1)}`;
+    });
+    line.setAttribute('points', points.join(' '));
+    line.setAttribute('stroke', color);
+    svg.style.display = 'block';
+  };
+
+  return Object.assign(svg, {
+    render,
+  });
+}
@@ -0,0 +1,72 @@
+// Main-world network capture (opt-in): forwards the conversation JSON and streams the page already fetches
+import { CAPTURE_MESSAGE_SOURCE, isCaptureEndpoint } from '../parsers/endpoints';
+import { CapturedResponse } from '../types';
+
+// Kept for the content script, which loads after the first fetches
+const MAX_BUFFERED = 10;
+const buffered: CapturedResponse[] = [];
+
+function forward(response: CapturedResponse) {
+  buffered.push(response);
+  if (buffered.length > MAX_BUFFERED) buffered.shift();
+  window.postMessage({ source: CAPTURE_MESSAGE_SOURCE, kind: 'response', response }, window.location.origin);
+}
+
+window.addEventListener('message', (event) => {
+  if (event.source !== window || event.data?.source !== CAPTURE_MESSAGE_SOURCE) return;
+  if (event.data.kind === 'replay') {
+    buffered.forEach(response => {
+      window.postMessage({ source: CAPTURE_MESSAGE_SOURCE, kind: 'response', response }, window.location.origin);
+    });
+  }
+});
+
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return new URL(input, window.location.href).href;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+const originalFetch = window.fetch;
+window.fetch = async function (input: RequestInfo | URL, init?: RequestInit) {
+  const response = await originalFetch.call(this, input, init);
+
+  try {
+    const url = requestUrl(input);
+    if (isCaptureEndpoint(window.location.hostname, url)) {
+      const method = (init?.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+      const requestBody = typeof init?.body === 'string' ? init.body : undefined;
+      const contentType = response.headers.get('content-type') || '';
+
+      // Read a clone so the page keeps an untouched body; streams are forwarded once complete
+      response.clone().text()
+        .then(body => forward({ url, method, requestBody, contentType, body }))
+        .catch(() => {});
+    }
+  } catch (error) {
+    // Never break the page's own request
+  }
+  return response;
+};
+
+const OriginalEventSource = window.EventSource;
+if (OriginalEventSource) {
+  window.EventSource = class extends OriginalEventSource {
+    constructor(url: string | URL, config?: EventSourceInit) {
+      super(url, config);
+      const href = new URL(String(url), window.location.href).href;
+      if (!isCaptureEndpoint(window.location.hostname, href)) return;
+
+      // Re-serialize events so the parsers see the same format as fetch streams
+      const events: string[] = [];
+      this.addEventListener('message', (event) => {
+        events.push(`data: ${event.data}\n\n`);
+      });
+      // The server closing the stream surfaces as an error
+      this.addEventListener('error', () => {
+        if (events.length === 0) return;
+        forward({ url: href, method: 'GET', contentType: 'text/event-stream', body: events.splice(0).join('') });
+      });
+    }
+  };
+}
@@ -0,0 +1,5 @@
+// Content script for Gemini
+import { startTracker } from '../core/ContextTracker';
+import { geminiAdapter } from '../adapters/gemini';
+
+startTracker(geminiAdapter);
@@ -0,0 +1,11 @@
+// Content script for self-hosted chat UIs, registered at runtime per origin
+import { startTracker } from '../core/ContextTracker';
+import { createLocalAdapter } from '../adapters/local';
+import { getCustomSites } from '../utils/storage';
+
+getCustomSites().then(sites => {
+  const site = sites.find(s => s.origin === window.location.origin);
+  if (site) {
+    startTracker(createLocalAdapter(site));
+  }
+});
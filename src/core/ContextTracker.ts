@@ -0,0 +1,1345 @@
+// Generic context tracker driven by a declarative ProviderAdapter
+import { countTokens, measureTokens, measureTokensBatch, approximateTokens, TokenCount } from '../utils/tokenizer';
+import {
+  findElement,
+  findAllElements,
+  sortByDocumentOrder,
+  keepOutermost,
+  setInputText,
+  findMessageNodes,
+  messageText,
+  readMessages,
+  readInput,
+} from '../utils/dom';
+import { createContextIndicator } from '../components/ContextIndicator';
+import { getSettings, onSettingsChanged, DEFAULT_SETTINGS } from '../utils/storage';
+import { ATTACHMENT_ESTIMATES, TOOL_ESTIMATES } from '../utils/constants';
+import { findModelInText } from '../utils/models';
+import { describeAttachmentElement, estimateAttachmentTokens } from '../utils/attachments';
+import {
+  estimateReasoningTokens,
+  estimateToolOutputTokens,
+  expandedText,
+  countDistinctSources,
+  parseThoughtSeconds,
+} from '../utils/tool-usage';
+import { resolveOverhead, resolveEnabledFeatures, estimateOverhead, OverheadEstimate } from '../utils/overhead';
+import { TranscriptCapture } from './TranscriptCapture';
+import { activePath, branchPosition, inactiveBranches } from '../parsers/tree';
+import { hashText } from '../utils/hash';
+import { usageKey, saveUsage, loadUsage, growthSeries, usageTurns } from '../utils/history';
+import { forecastTurns } from '../utils/forecast';
+import { resolveSendGuard, checkSend } from '../utils/send-guard';
+import { fitHandoff, savePendingHandoff, takePendingHandoff } from '../utils/handoff';
+import { EXPORT_FORMATS, downloadTranscript } from '../utils/export';
+import { resolveEncoding } from '../utils/encodings';
+import { SendGuard } from './SendGuard';
+import { createDiagnosticsOverlay, DiagnosticsSnapshot } from '../components/DiagnosticsOverlay';
+import { DIAGNOSTIC_GROUPS, probeGroup } from '../utils/diagnostics';
+import { findBranchPosition } from '../utils/branches';
+import { getProjectBaseline, saveProjectBaseline, measureProjectPage } from '../utils/projects';
+import { BUNDLED_CATALOG, getCatalog, onCatalogChanged, matchCatalogModel, getCatalogLimits } from '../utils/catalog';
+import {
+  ProviderAdapter,
+  DomMessage,
+  MessageBreakdown,
+  UserSettings,
+  ModelCatalog,
+  ModelLimitTable,
+  AttachmentInfo,
+  OverheadFeature,
+  ProjectBaseline,
+  CapturedConversation,
+  CapturedMessage,
+  CapturedPart,
+  BranchPosition,
+  BranchSummary,
+  ConversationUsage,
+  TrackerStatus,
+  ChatMessage,
+  SendGuardVerdict,
+  ExportFormat,
+  EncodingId,
+  CountSource,
+  CountAccuracy,
+  IndicatorAction,
+} from '../types';
+
+export interface TrackedMessage extends DomMessage {
+  branch?: BranchPosition;
+}
+
+// Line items and totals for one category of context usage
+interface BucketCount {
+  items: MessageBreakdown[];
+  tokens: number;
+  estimatedTokens: number;
+}
+
+// Chat, attachment and tool buckets for one transcript source
+interface TranscriptCount {
+  messages: BucketCount;
+  attachments: BucketCount;
+  tools: BucketCount & { droppedReasoning: number };
+  messageCount: number;
+  branches: BranchSummary;
+  // Active conversation in order with per-message tokens, for handoffs and exports
+  chat: ChatMessage[];
+}
+
+// Single-line excerpt for the breakdown panel
+function previewText(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > 60 ? `${line.substring(0, 60)}…` : line;
+}
+
+// Message text from a captured message's text parts
+function capturedText(message: CapturedMessage): string {
+  return message.parts.filter(part => part.kind === 'text').map(part => part.text).join('\n');
+}
+
+// Heuristic estimates first, then counts that fell back to the length approximation
+function summarizeAccuracy(items: MessageBreakdown[], approximateReason?: string): CountAccuracy {
+  const accuracy: CountAccuracy = {
+    sources: { exact: 0, cached: 0, approximate: 0, estimated: 0 },
+    approximateTokens: 0,
+    approximateReason,
+  };
+  for (const item of items) {
+    const source = item.source || (item.estimated ? 'estimated' : 'exact');
+    accuracy.sources[source]++;
+    if (source === 'approximate') accuracy.approximateTokens += item.tokens;
+  }
+  return accuracy;
+}
+
+// Send time from a <time datetime> inside the message, when the page renders one
+function domTimestamp(element: Element): number | undefined {
+  const time = element.querySelector('time[datetime]');
+  const parsed = time ? Date.parse(time.getAttribute('datetime') || '') : NaN;
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+export class ContextTracker {
+  private observer: MutationObserver | null = null;
+  // Container the chat observer watches; only messages inside it can reuse extracted text
+  private observedContainer: Element | null = null;
+  // Extracted text per message element, dropped when a mutation touches the element
+  private messageTexts: WeakMap<Element, string> = new WeakMap();
+  private inputObserver: MutationObserver | null = null;
+  private modelObserver: MutationObserver | null = null;
+  private contextIndicator: ReturnType<typeof createContextIndicator>;
+  private currentModel: string;
+  private currentPlan: string;
+  private modelDetected: boolean = false;
+  // Approximations are cached too, so a down tokenizer isn't asked again until a retry
+  private tokenCache: Map<string, TokenCount & { run: number }> = new Map();
+  // Incremented per calculation, to tell fresh tokenizer results from cache hits
+  private countRun: number = 0;
+  // Tokenizer error behind any approximations in the current calculation
+  private approximateReason: string | undefined;
+  private offeringRetry: boolean = false;
+  private diagnostics: ReturnType<typeof createDiagnosticsOverlay> | null = null;
+  private currentUrl: string = window.location.href;
+  private calculationTimeout: ReturnType<typeof setTimeout> | null = null;
+  private urlInterval: ReturnType<typeof setInterval> | null = null;
+  private isCalculating: boolean = false;
+  private pendingCalculation: boolean = false;
+  private retryCount: number = 0;
+  private maxRetries: number = 10;
+  private hasCompletedInitialLoad: boolean = false;
+  private settings: UserSettings = DEFAULT_SETTINGS;
+  private catalog: ModelCatalog = BUNDLED_CATALOG;
+  private projectBaseline: ProjectBaseline | null = null;
+  private projectBaselineId: string | null = null;
+  private capture: TranscriptCapture | null = null;
+  // Chat tokens below each branch point, per variant seen so far (DOM scraping only shows one at a time)
+  private branchMemory: Map<string, Map<number, number>> = new Map();
+  // Last usage record written to history, to skip identical saves
+  private lastSavedUsage: string = '';
+  private status: TrackerStatus;
+  private sendGuard: SendGuard | null = null;
+  // Last counted totals and transcript, read synchronously when a send is intercepted
+  private lastCount: { contextTokens: number; draftText: string; draftTokens: number; maxTokens: number } | null = null;
+  private lastChat: ChatMessage[] = [];
+
+  constructor(private adapter: ProviderAdapter) {
+    this.currentModel = adapter.defaultModel;
+    this.currentPlan = adapter.defaultPlan;
+    this.contextIndicator = createContextIndicator(adapter.systemPromptNote);
+    this.status = {
+      provider: adapter.id,
+      conversationId: null,
+      title: '',
+      model: this.currentModel,
+      plan: this.currentPlan,
+      totalTokens: 0,
+      maxTokens: adapter.fallbackMaxTokens,
+      isLoading: true,
+    };
+    this.init();
+  }
+
+  private init() {
+    // Wait for page to load
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', () => this.setup());
+    } else {
+      this.setup();
+    }
+  }
+
+  private async setup() {
+    // Insert context indicator into page
+    this.insertIndicator();
+
+    // Answer the toolbar popup's status requests
+    chrome.runtime.onMessage.addListener(this.handleRuntimeMessage);
+
+    this.contextIndicator.setActions(this.indicatorActions());
+    this.contextIndicator.setRetryHandler(() => this.retryExactCounts());
+
+    // Load user overrides and the model catalog before detecting anything
+    await this.loadSettings();
+    await this.loadCatalog();
+
+    // Detect plan and model FIRST before any calculations
+    this.detectPlan();
+    this.observeModelChanges();
+
+    // Start with loading state - don't show any numbers until we have correct data
+    this.contextIndicator.update(0, this.getMaxTokens(), true);
+    this.restoreUsage();
+
+    // Start observing chat changes
+    this.observeChat();
+    this.deliverHandoff();
+
+    // Initial calculation with slight delay to ensure DOM is ready
+    setTimeout(() => {
+      this.scheduleCalculation();
+    }, 200);
+
+    // Watch for URL changes (chat switches)
+    this.observeUrlChanges();
+  }
+
+  private async loadSettings() {
+    try {
+      this.settings = await getSettings();
+    } catch (error) {
+      console.error('Failed to load settings, using defaults:', error);
+    }
+
+    this.syncCapture();
+    this.syncSendGuard();
+    this.syncDiagnostics();
+
+    // Apply changes from the options page without a reload
+    onSettingsChanged(settings => {
+      const diagnosticsWas = this.settings.selectorDiagnostics;
+      this.settings = settings;
+      this.syncCapture();
+      this.syncSendGuard();
+      this.syncDiagnostics(diagnosticsWas);
+      this.detectPlan();
+      this.observeModelChanges();
+      this.scheduleCalculation();
+    });
+  }
+
+  // Listen for captured network transcripts while the opt-in setting is on
+  private syncCapture() {
+    const enabled = this.settings.networkCapture && !!this.adapter.transcriptParser;
+    if (enabled && !this.capture) {
+      this.capture = new TranscriptCapture(this.adapter.transcriptParser!, () => this.scheduleCalculation());
+    } else if (!enabled && this.capture) {
+      this.capture.destroy();
+      this.capture = null;
+    }
+  }
+
+  private syncSendGuard() {
+    const enabled = this.settings.sendGuard.enabled;
+    if (enabled && !this.sendGuard) {
+      this.sendGuard = new SendGuard(this.adapter.selectors, {
+        readDraft: () => readInput(this.adapter),
+        evaluate: draft => this.evaluateSend(draft),
+        startNewChat: draft => this.startNewChat(draft),
+      });
+    } else if (!enabled && this.sendGuard) {
+      this.sendGuard.destroy();
+      this.sendGuard = null;
+    }
+  }
+
+  // Uses the last count; a draft edited since then is approximated so the check stays synchronous
+  private evaluateSend(draft: string): SendGuardVerdict | null {
+    if (!this.lastCount) return null;
+    const draftTokens = draft === this.lastCount.draftText ? this.lastCount.draftTokens : approximateTokens(draft, this.getEncoding());
+    const limits = resolveSendGuard(this.settings, this.currentModel);
+    return checkSend(limits, this.lastCount.contextTokens, draftTokens, this.lastCount.maxTokens);
+  }
+
+  // Summarize the tracked transcript into the user's handoff budget and carry it to a new chat
+  private async startNewChat(draft: string) {
+    const handoff = await fitHandoff(
+      this.lastChat,
+      this.settings.handoffBudget,
+      text => countTokens(text, this.getEncoding()),
+      draft
+    );
+    await savePendingHandoff(this.adapter.id, handoff.text);
+    window.location.assign(this.adapter.newChatPath || '/');
+  }
+
+  // The options toggle opens the overlay on every chat page; the indicator action opens it for this one.
+  // Other settings changes leave it alone, so a closed overlay stays closed
+  private syncDiagnostics(previous?: boolean) {
+    const enabled = this.settings.selectorDiagnostics;
+    if (enabled === previous) return;
+    if (enabled) {
+      this.toggleDiagnostics(true);
+    } else if (this.diagnostics) {
+      this.diagnostics.remove();
+      this.diagnostics = null;
+    }
+  }
+
+  private toggleDiagnostics(open: boolean = !this.diagnostics?.isOpen()) {
+    if (!open) {
+      this.diagnostics?.hide();
+      return;
+    }
+    if (!this.diagnostics) {
+      this.diagnostics = createDiagnosticsOverlay();
+    }
+    this.diagnostics.show(() => this.readDiagnostics());
+  }
+
+  private readDiagnostics(): DiagnosticsSnapshot {
+    const nodes: { [group: string]: Element[] } = {};
+    const groups = DIAGNOSTIC_GROUPS.map(group => {
+      const probe = probeGroup(group, this.adapter.selectors[group]);
+      nodes[group] = probe.nodes;
+      return probe.health;
+    });
+    const modelSelector = findElement(this.adapter.selectors.modelSelector);
+    const modelLabel = modelSelector
+      ? (modelSelector.textContent || modelSelector.getAttribute('aria-label') || '').trim()
+      : '';
+
+    return {
+      report: {
+        provider: this.adapter.id,
+        version: chrome.runtime.getManifest().version,
+        url: `${window.location.origin}${window.location.pathname}`,
+        userAgent: navigator.userAgent,
+        generatedAt: Date.now(),
+        model: { detected: this.modelDetected, id: this.currentModel, label: modelLabel },
+        plan: { id: this.currentPlan, source: this.settings.planOverrides[this.adapter.id] ? 'override' : 'detected' },
+        tracker: { isLoading: this.status.isLoading, totalTokens: this.status.totalTokens, maxTokens: this.status.maxTokens },
+        groups,
+      },
+      nodes,
+    };
+  }
+
+  // Breakdown panel actions; the retry is only offered while some counts are approximations
+  private indicatorActions(): IndicatorAction[] {
+    const actions: IndicatorAction[] = [
+      {
+        label: '↪ Continue in new chat',
+        title: 'Open a new chat with a summary of this one pasted into the input',
+        run: () => this.startNewChat(readInput(this.adapter)?.text || ''),
+      },
+      ...EXPORT_FORMATS.map(format => ({
+        label: `⬇ ${format.label}`,
+        title: `Download this conversation with token counts as ${format.label}`,
+        run: () => this.exportTranscript(format.id),
+      })),
+      {
+        label: '🩺 Diagnostics',
+        title: 'Show which page selectors matched, with the matched elements outlined',
+        run: () => this.toggleDiagnostics(),
+      },
+    ];
+    if (this.offeringRetry) {
+      actions.unshift({
+        label: '↻ Retry exact count',
+        title: 'Ask the tokenizer again for the counts that fell back to an approximation',
+        run: () => this.retryExactCounts(),
+      });
+    }
+    return actions;
+  }
+
+  // Forget approximated counts so the next calculation asks the tokenizer again
+  private retryExactCounts() {
+    for (const [key, count] of this.tokenCache) {
+      if (!count.exact) this.tokenCache.delete(key);
+    }
+    this.scheduleCalculation();
+  }
+
+  private exportTranscript(format: ExportFormat) {
+    downloadTranscript({
+      provider: this.adapter.id,
+      title: document.title.trim(),
+      url: window.location.href,
+      model: this.currentModel,
+      maxTokens: this.status.maxTokens,
+      totalTokens: this.lastCount ? this.lastCount.contextTokens : this.status.totalTokens,
+      exportedAt: Date.now(),
+      messages: this.lastChat,
+    }, format);
+  }
+
+  // Paste a handoff saved by the previous page into the new chat's composer
+  private async deliverHandoff() {
+    const text = await takePendingHandoff(this.adapter.id);
+    if (!text) return;
+
+    // The composer mounts after the page's own scripts
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const input = findElement(this.adapter.selectors.inputField);
+      if (input) {
+        setInputText(input, text);
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  }
+
+  private async loadCatalog() {
+    this.catalog = await getCatalog();
+
+    // Pick up catalog updates fetched by the background script
+    onCatalogChanged(catalog => {
+      this.catalog = catalog;
+      this.observeModelChanges();
+      this.scheduleCalculation();
+    });
+  }
+
+  private observeUrlChanges() {
+    // Check for URL changes periodically (for SPA navigation)
+    this.urlInterval = setInterval(() => {
+      if (window.location.href !== this.currentUrl) {
+        this.handleChatSwitch();
+      }
+    }, 500);
+
+    // Also listen for popstate events
+    window.addEventListener('popstate', () => {
+      this.handleChatSwitch();
+    });
+
+    // Listen for pushstate/replacestate
+    const originalPushState = history.pushState;
+    const originalReplaceState = history.replaceState;
+    const self = this;
+
+    history.pushState = function (...args) {
+      originalPushState.apply(history, args);
+      setTimeout(() => self.handleChatSwitch(), 100);
+    };
+
+    history.replaceState = function (...args) {
+      originalReplaceState.apply(history, args);
+      setTimeout(() => self.handleChatSwitch(), 100);
+    };
+  }
+
+  private normalizeUrl(url: string): string {
+    return this.adapter.normalizeUrl ? this.adapter.normalizeUrl(url) : url;
+  }
+
+  private handleChatSwitch() {
+    const newUrl = window.location.href;
+    if (newUrl === this.currentUrl) return;
+
+    // Some URL changes (e.g. model query params) don't switch the conversation
+    if (this.normalizeUrl(newUrl) === this.normalizeUrl(this.currentUrl)) {
+      this.currentUrl = newUrl;
+      return;
+    }
+
+    this.currentUrl = newUrl;
+
+    // Clear token cache and remembered branches for new chat
+    this.tokenCache.clear();
+    this.branchMemory.clear();
+    this.lastCount = null;
+    this.lastChat = [];
+
+    // Reset initial load flag and model state for new chat
+    this.hasCompletedInitialLoad = false;
+    this.modelDetected = false;
+
+    // Disconnect existing observers
+    this.disconnectObservers();
+
+    // For chat switches, show loading state by default
+    // We'll determine if it's empty during calculation
+    this.contextIndicator.resetHistory();
+    this.contextIndicator.update(0, this.getMaxTokens(), true);
+    this.restoreUsage();
+
+    // Re-observe the new chat with multiple retries to ensure content is loaded
+    let retries = 0;
+    const maxRetries = 10;
+    const retryInterval = setInterval(() => {
+      retries++;
+      const messages = findMessageNodes(this.adapter);
+      const hasMessages = messages.user.length > 0 || messages.assistant.length > 0;
+
+      if (hasMessages || this.adapter.isNewChat(window.location) || retries >= maxRetries) {
+        clearInterval(retryInterval);
+
+        this.retryCount = 0;
+        this.insertIndicator();
+        this.detectPlan();
+        this.observeModelChanges();
+        this.observeChat();
+        this.scheduleCalculation();
+
+        // Force another calculation after a delay to catch any late-loading content
+        setTimeout(() => this.scheduleCalculation(), 1500);
+      }
+    }, 300);
+  }
+
+  private handleRuntimeMessage = (request: any, _sender: any, sendResponse: (response: any) => void) => {
+    if (request.type === 'GET_STATUS') {
+      sendResponse({ success: true, status: this.status });
+    }
+    return false;
+  };
+
+  private updateStatus(totalTokens: number, maxTokens: number, isLoading: boolean) {
+    this.status = {
+      provider: this.adapter.id,
+      conversationId: this.getConversationId(),
+      title: document.title.trim(),
+      model: this.currentModel,
+      plan: this.currentPlan,
+      totalTokens,
+      maxTokens,
+      isLoading,
+    };
+  }
+
+  private getConversationId(): string | null {
+    if (this.adapter.isNewChat(window.location)) return null;
+    return this.adapter.conversationId
+      ? this.adapter.conversationId(window.location)
+      : this.normalizeUrl(window.location.pathname);
+  }
+
+  // Show the last known count for this conversation while the recount runs
+  private async restoreUsage() {
+    const conversationId = this.getConversationId();
+    if (!conversationId) return;
+
+    const usage = await loadUsage(usageKey(this.adapter.id, conversationId));
+    // Skip if the user moved on or the recount already finished
+    if (!usage || this.getConversationId() !== conversationId || this.hasCompletedInitialLoad) return;
+
+    this.contextIndicator.showCached(usage.totalTokens, usage.maxTokens, usage.updatedAt);
+    this.contextIndicator.setHistory(growthSeries(usage), usage.maxTokens);
+  }
+
+  // Save totals and per-turn counts, and redraw the growth chart
+  private recordUsage(items: MessageBreakdown[], totalTokens: number, maxTokens: number) {
+    const turns = usageTurns(items);
+    const turnTokens = turns.reduce((total, turn) => total + turn.tokens, 0);
+
+    const conversationId = this.getConversationId();
+    const usage: ConversationUsage = {
+      key: usageKey(this.adapter.id, conversationId || ''),
+      provider: this.adapter.id,
+      conversationId: conversationId || '',
+      url: window.location.href,
+      title: document.title.trim(),
+      model: this.currentModel,
+      totalTokens,
+      maxTokens,
+      baseTokens: Math.max(0, totalTokens - turnTokens),
+      turns,
+      updatedAt: Date.now(),
+    };
+    this.contextIndicator.setHistory(growthSeries(usage), maxTokens);
+
+    // New chats get an id once the first message is sent
+    if (!conversationId || turns.length === 0) return;
+
+    const signature = JSON.stringify([usage.key, usage.title, usage.model, totalTokens, maxTokens, turns]);
+    if (signature === this.lastSavedUsage) return;
+    this.lastSavedUsage = signature;
+    saveUsage(usage);
+  }
+
+  private insertIndicator() {
+    // Find a suitable place to insert the indicator
+    const targetElement = findElement(this.adapter.selectors.mainContent);
+    if (targetElement) {
+      targetElement.appendChild(this.contextIndicator);
+    } else {
+      // Fallback to body if main not found
+      document.body.appendChild(this.contextIndicator);
+    }
+  }
+
+  private observeChat() {
+    const chatContainer = findElement(this.adapter.selectors.chatContainer);
+    if (!chatContainer) {
+      // Retry after a delay if chat container not found, but limit retries
+      if (this.retryCount < this.maxRetries) {
+        this.retryCount++;
+        setTimeout(() => this.observeChat(), 1000);
+      }
+      return;
+    }
+
+    this.observer = new MutationObserver((records) => {
+      this.invalidateMessages(records);
+      this.scheduleCalculation();
+    });
+    this.observedContainer = chatContainer;
+
+    this.observer.observe(chatContainer, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+    });
+
+    // Also observe the input field specifically
+    this.observeInputField();
+  }
+
+  // Forget the extracted text of any message that contains a mutated node
+  private invalidateMessages(records: MutationRecord[]) {
+    for (const record of records) {
+      let node: Node | null = record.target;
+      while (node && node !== this.observedContainer) {
+        if (node instanceof Element) this.messageTexts.delete(node);
+        node = node.parentNode;
+      }
+    }
+  }
+
+  private observeInputField(attempt: number = 0) {
+    const inputField = findElement(this.adapter.selectors.inputField);
+    if (!inputField) {
+      // Retry after a delay
+      if (attempt < this.maxRetries) {
+        setTimeout(() => this.observeInputField(attempt + 1), 1000);
+      }
+      return;
+    }
+
+    if (this.inputObserver) {
+      this.inputObserver.disconnect();
+    }
+
+    // Rich-text editors (ProseMirror etc.) mutate deeply, so watch everything
+    this.inputObserver = new MutationObserver(() => {
+      this.scheduleCalculation();
+    });
+
+    this.inputObserver.observe(inputField, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+    });
+
+    // Textareas don't mutate, so also listen for input events
+    inputField.addEventListener('input', () => {
+      this.scheduleCalculation();
+    });
+  }
+
+  private detectPlan() {
+    // A plan forced in the options page wins over DOM heuristics
+    this.currentPlan = this.settings.planOverrides[this.adapter.id] || this.adapter.detectPlan();
+  }
+
+  private getLimitOverrides(): { [model: string]: number } {
+    return this.settings.modelLimitOverrides[this.adapter.id] || {};
+  }
+
+  private observeModelChanges(attempt: number = 0) {
+    const modelSelector = findElement(this.adapter.selectors.modelSelector);
+    if (!modelSelector) {
+      // Fall back to the default model until the selector shows up
+      this.updateModel('');
+      if (attempt < this.maxRetries) {
+        setTimeout(() => this.observeModelChanges(attempt + 1), 1000);
+      }
+      return;
+    }
+
+    const readModel = () => {
+      const modelText = modelSelector.textContent || '';
+      const ariaLabel = modelSelector.getAttribute('aria-label') || '';
+      // Prefer the visible label, fall back to aria-label
+      return this.updateModel(modelText) || this.updateModel(ariaLabel);
+    };
+
+    readModel();
+
+    if (this.modelObserver) {
+      this.modelObserver.disconnect();
+    }
+
+    // Recalculate whenever the selector shows a different real model
+    this.modelObserver = new MutationObserver(() => {
+      if (readModel()) {
+        this.scheduleCalculation();
+      }
+    });
+
+    this.modelObserver.observe(modelSelector, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ['aria-label'],
+    });
+  }
+
+  // Returns true when the text mapped to a real model
+  private updateModel(modelText: string): boolean {
+    // User-added models are matched by id before the adapter's own detection
+    const model = findModelInText(modelText, Object.keys(this.getLimitOverrides())) ||
+      this.detectModel(modelText);
+    if (!model) return false;
+    this.currentModel = model;
+    this.modelDetected = true;
+    return true;
+  }
+
+  private detectModel(modelText: string): string | null {
+    if (this.adapter.detectModel) {
+      return this.adapter.detectModel(modelText, this.currentPlan);
+    }
+    const model = matchCatalogModel(this.catalog, this.adapter.id, modelText, this.currentPlan);
+    if (model) return model;
+    return this.adapter.requireModelLabel ? null : this.adapter.defaultModel;
+  }
+
+  private getLimitTable(plan: string): ModelLimitTable {
+    if (this.adapter.limits) {
+      return this.adapter.limits[plan] || {};
+    }
+    return getCatalogLimits(this.catalog, this.adapter.id, plan);
+  }
+
+  // The current model's catalog encoding, else the adapter's
+  private getEncoding(): EncodingId {
+    const model = this.catalog.models.find(entry => entry.provider === this.adapter.id && entry.id === this.currentModel);
+    return resolveEncoding(model?.encoding, this.adapter.encoding);
+  }
+
+  private getMaxTokens(): number {
+    const override = this.getLimitOverrides()[this.currentModel];
+    if (override) return override;
+
+    const { defaultPlan, defaultModel, fallbackMaxTokens } = this.adapter;
+    let table = this.getLimitTable(this.currentPlan);
+    if (Object.keys(table).length === 0) {
+      table = this.getLimitTable(defaultPlan);
+    }
+    const limit = table[this.currentModel] ?? table[defaultModel];
+    // Use conservative estimate for variable or unknown limits
+    return typeof limit === 'number' ? limit : fallbackMaxTokens;
+  }
+
+  // Hidden system prompt, feature and formatting tokens for the current model
+  private estimateHidden(messageCount: number, measured?: OverheadFeature): OverheadEstimate {
+    const override = this.settings.overheadOverrides[this.adapter.id] || {};
+    const profile = resolveOverhead(this.adapter.id, override);
+    const forced = { ...override.enabled };
+    const detected = this.adapter.detectFeatures ? this.adapter.detectFeatures() : {};
+    // A measured project baseline replaces the flat estimate for its feature
+    if (measured) {
+      forced[measured] = false;
+    }
+    const enabled = resolveEnabledFeatures(profile, forced, detected);
+    return estimateOverhead(profile, this.currentModel, enabled, messageCount);
+  }
+
+  private scheduleCalculation() {
+    // Clear existing timeout to prevent multiple rapid calculations
+    if (this.calculationTimeout) {
+      clearTimeout(this.calculationTimeout);
+    }
+
+    // Schedule calculation with debouncing
+    this.calculationTimeout = setTimeout(() => {
+      this.calculateContext();
+    }, this.adapter.debounceMs);
+  }
+
+  // Collect all messages in conversation order
+  private collectMessages(): TrackedMessage[] {
+    const { branchNavigator = [] } = this.adapter.selectors;
+    const messages = readMessages(this.adapter, (element, role) => {
+      // Unchanged messages keep their text; only mutated ones are read again
+      const watched = this.observedContainer !== null && this.observedContainer.contains(element);
+      let text = watched ? this.messageTexts.get(element) : undefined;
+      if (text === undefined) {
+        text = messageText(this.adapter, element, role);
+        if (watched) this.messageTexts.set(element, text);
+      }
+      return text;
+    });
+    const elements = messages.map(message => message.element);
+
+    return messages.map(message => {
+      const branch = branchNavigator.length > 0
+        ? findBranchPosition(message.element, branchNavigator, elements) || undefined
+        : undefined;
+      return { ...message, branch };
+    });
+  }
+
+  // Attachment chips and artifact cards, outermost match only
+  private collectAttachments(): { element: Element; info: AttachmentInfo }[] {
+    const selectors = this.adapter.selectors.attachments;
+    if (!selectors) return [];
+
+    const outermost = keepOutermost(findAllElements(selectors));
+
+    const attachments: { element: Element; info: AttachmentInfo }[] = [];
+    for (const element of sortByDocumentOrder(outermost)) {
+      const info = (this.adapter.describeAttachment && this.adapter.describeAttachment(element)) ||
+        describeAttachmentElement(element);
+      if (info) attachments.push({ element, info });
+    }
+    return attachments;
+  }
+
+  // Keyed by a hash of the full text, so edits anywhere in a message recount;
+  // switching to a model with another encoding recounts everything
+  private cacheKey(text: string): string {
+    return `${this.getEncoding()}:${text.length}-${hashText(text)}`;
+  }
+
+  private async countCached(text: string): Promise<{ tokens: number; source: CountSource }> {
+    const key = this.cacheKey(text);
+    let count = this.tokenCache.get(key);
+    if (!count) {
+      count = { ...await measureTokens(text, this.getEncoding()), run: this.countRun };
+      this.tokenCache.set(key, count);
+    }
+    return { tokens: count.tokens, source: this.noteSource(count) };
+  }
+
+  // Remembers why the tokenizer failed, for the indicator's tooltip
+  private noteSource(count: TokenCount & { run?: number }): CountSource {
+    if (!count.exact) {
+      this.approximateReason = count.error || this.approximateReason;
+      return 'approximate';
+    }
+    return count.run === undefined || count.run === this.countRun ? 'exact' : 'cached';
+  }
+
+  // Count every uncached text in one background round-trip
+  private async prefetchCounts(texts: string[]) {
+    const missing = Array.from(new Set(texts.filter(text => !this.tokenCache.has(this.cacheKey(text)))));
+    if (missing.length === 0) return;
+    const counts = await measureTokensBatch(missing, this.getEncoding());
+    missing.forEach((text, i) => this.tokenCache.set(this.cacheKey(text), { ...counts[i], run: this.countRun }));
+  }
+
+  // Count tokens in messages, keeping per-message counts for the breakdown panel
+  private async countMessages(messages: TrackedMessage[]): Promise<BucketCount> {
+    const result: BucketCount = { items: [], tokens: 0, estimatedTokens: 0 };
+    await this.prefetchCounts(messages.map(msg => msg.text));
+    for (const msg of messages) {
+      const { tokens, source } = await this.countCached(msg.text);
+      result.items.push({
+        role: msg.role,
+        tokens,
+        source,
+        preview: previewText(msg.text),
+        element: msg.element,
+        branch: msg.branch,
+      });
+      result.tokens += tokens;
+    }
+    return result;
+  }
+
+  // Remember what each shown variant below a branch point costs, and sum the variants not shown
+  private countDomBranches(messages: TrackedMessage[], counts: MessageBreakdown[]): BranchSummary {
+    const summary: BranchSummary = { inactiveTokens: 0, inactiveCount: 0, unseenCount: 0 };
+    let prefix = '';
+    let below = counts.reduce((total, item) => total + item.tokens, 0);
+
+    for (let i = 0; i < messages.length; i++) {
+      const { branch, text } = messages[i];
+      if (branch) {
+        // The branch point is identified by everything before it
+        const key = `${i}-${hashText(prefix)}`;
+        const variants = this.branchMemory.get(key) || new Map<number, number>();
+        variants.set(branch.index, below);
+        this.branchMemory.set(key, variants);
+
+        variants.forEach((tokens, index) => {
+          if (index === branch.index) return;
+          summary.inactiveTokens += tokens;
+          summary.inactiveCount++;
+        });
+        summary.unseenCount += branch.total - variants.size;
+      }
+      prefix += `${messages[i].role}:${text}\n`;
+      below -= counts[i].tokens;
+    }
+    return summary;
+  }
+
+  // Estimate attachments and artifacts as separate line items
+  private countAttachments(onlyKind?: AttachmentInfo['kind']): BucketCount {
+    const result: BucketCount = { items: [], tokens: 0, estimatedTokens: 0 };
+    for (const { element, info } of this.collectAttachments()) {
+      if (onlyKind && info.kind !== onlyKind) continue;
+      const tokens = estimateAttachmentTokens(
+        info,
+        this.adapter.imageTokenFormula || 'openai',
+        this.adapter.pdfTokensPerPage || ATTACHMENT_ESTIMATES.PDF_TOKENS_PER_PAGE
+      );
+      result.items.push({
+        role: 'attachment',
+        tokens,
+        estimated: true,
+        source: 'estimated',
+        preview: info.name,
+        element,
+      });
+      result.tokens += tokens;
+      result.estimatedTokens += tokens;
+    }
+    return result;
+  }
+
+  // Reasoning traces, tool outputs and search results inside assistant messages
+  private async countToolUsage(messages: TrackedMessage[]): Promise<BucketCount & { droppedReasoning: number }> {
+    const result = { items: [] as MessageBreakdown[], tokens: 0, estimatedTokens: 0, droppedReasoning: 0 };
+    const { reasoning = [], toolOutputs = [], citations = [] } = this.adapter.selectors;
+    const keepReasoning = this.adapter.reasoningRetention === 'keep';
+    const assistantMessages = messages.filter(msg => msg.role === 'assistant');
+
+    const add = (element: Element, preview: string, tokens: number, source: CountSource) => {
+      const estimated = source === 'estimated';
+      result.items.push({ role: 'tool', tokens, estimated, source, preview, element });
+      result.tokens += tokens;
+      if (estimated) result.estimatedTokens += tokens;
+    };
+
+    // Providers strip reasoning from earlier turns before the next request
+    const keptReasoning = (index: number) => keepReasoning || index === assistantMessages.length - 1;
+    const count = (text: string) => this.countCached(text);
+
+    // Every expanded block goes out in one round-trip before they are counted in order
+    const blocks = assistantMessages.flatMap(({ element }, i) => [
+      ...(keptReasoning(i) ? keepOutermost(findAllElements(reasoning, element)) : []),
+      ...keepOutermost(findAllElements(toolOutputs, element)),
+    ]);
+    await this.prefetchCounts(blocks.map(expandedText).filter((text): text is string => text !== null));
+
+    for (let i = 0; i < assistantMessages.length; i++) {
+      const { element } = assistantMessages[i];
+
+      for (const block of keepOutermost(findAllElements(reasoning, element))) {
+        if (!keptReasoning(i)) {
+          result.droppedReasoning++;
+          continue;
+        }
+        const estimate = await estimateReasoningTokens(block, count);
+        const seconds = parseThoughtSeconds(block.textContent || '');
+        add(block, seconds !== null ? `Reasoning (${seconds}s)` : 'Reasoning', estimate.tokens, estimate.source);
+      }
+
+      for (const output of keepOutermost(findAllElements(toolOutputs, element))) {
+        const estimate = await estimateToolOutputTokens(output, count);
+        add(output, 'Tool output', estimate.tokens, estimate.source);
+      }
+
+      const sources = countDistinctSources(findAllElements(citations, element));
+      if (sources > 0) {
+        const perResult = this.adapter.searchResultTokens || TOOL_ESTIMATES.SEARCH_RESULT_TOKENS;
+        add(element, `${sources} search result${sources === 1 ? '' : 's'}`, sources * perResult, 'estimated');
+      }
+    }
+    return result;
+  }
+
+  // DOM-scraped transcript
+  private async countDomTranscript(messages: TrackedMessage[]): Promise<TranscriptCount> {
+    const messageCount = await this.countMessages(messages);
+    return {
+      messages: messageCount,
+      attachments: this.countAttachments(),
+      tools: await this.countToolUsage(messages),
+      messageCount: messages.length,
+      branches: this.countDomBranches(messages, messageCount.items),
+      chat: messages.map((msg, i) => ({
+        role: msg.role,
+        content: msg.text,
+        timestamp: domTimestamp(msg.element),
+        tokens: messageCount.items[i].tokens,
+        codeBlocks: Array.from(msg.element.querySelectorAll('pre'), pre => (pre.textContent || '').trimEnd()),
+      })),
+    };
+  }
+
+  // Exact transcript from captured network traffic; DOM messages are only used to scroll to
+  private async countCapturedTranscript(
+    conversation: CapturedConversation,
+    domMessages: TrackedMessage[]
+  ): Promise<TranscriptCount> {
+    const result: TranscriptCount = {
+      messages: { items: [], tokens: 0, estimatedTokens: 0 },
+      attachments: { items: [], tokens: 0, estimatedTokens: 0 },
+      tools: { items: [], tokens: 0, estimatedTokens: 0, droppedReasoning: 0 },
+      messageCount: 0,
+      branches: { inactiveTokens: 0, inactiveCount: 0, unseenCount: 0 },
+      chat: [],
+    };
+
+    const fullPath = activePath(conversation);
+    const path = fullPath.filter(message => message.parts.length > 0);
+    const keepReasoning = this.adapter.reasoningRetention === 'keep';
+    const lastAssistant = path.filter(message => message.role === 'assistant').pop();
+    const domByRole = {
+      user: domMessages.filter(msg => msg.role === 'user'),
+      assistant: domMessages.filter(msg => msg.role === 'assistant'),
+    };
+    const seenByRole = { user: 0, assistant: 0 };
+    const isDropped = (message: CapturedMessage, part: CapturedPart) =>
+      part.kind === 'reasoning' && !keepReasoning && message !== lastAssistant;
+    const inactive = inactiveBranches(conversation, fullPath);
+
+    // Everything that will be counted, sent to the tokenizer in one batch
+    await this.prefetchCounts([
+      ...path.map(capturedText).filter(text => text.length > 0),
+      ...path.flatMap(message => message.parts
+        .filter(part => part.kind !== 'text' && !isDropped(message, part))
+        .map(part => part.text)),
+      ...inactive.messages.flatMap(message => message.parts.map(part => part.text)),
+    ]);
+
+    const fallbackElement = findElement(this.adapter.selectors.chatContainer) || document.body;
+    let element: Element = fallbackElement;
+
+    for (const message of path) {
+      // Prefer an element carrying the message id, then the DOM message in the same position
+      if (message.role === 'user' || message.role === 'assistant') {
+        element = document.querySelector(`[data-message-id="${CSS.escape(message.id)}"]`) ||
+          domByRole[message.role][seenByRole[message.role]++]?.element ||
+          element;
+      }
+
+      for (const part of message.parts) {
+        if (part.kind === 'text') continue;
+        if (isDropped(message, part)) {
+          result.tools.droppedReasoning++;
+          continue;
+        }
+
+        const { tokens, source } = await this.countCached(part.text);
+        const bucket = part.kind === 'attachment' ? result.attachments : result.tools;
+        const label = part.kind === 'reasoning' ? 'Reasoning' : part.kind === 'attachment' ? 'File' : 'Tool output';
+        bucket.items.push({
+          role: part.kind === 'attachment' ? 'attachment' : 'tool',
+          tokens,
+          source,
+          preview: part.name ? `${label} · ${part.name}` : label,
+          element,
+        });
+        bucket.tokens += tokens;
+      }
+
+      const text = capturedText(message);
+      if (text) {
+        const { tokens, source } = await this.countCached(text);
+        const role = message.role === 'user' ? 'user' : 'assistant';
+        const branch = branchPosition(conversation, message) || undefined;
+        result.messages.items.push({ role, tokens, source, preview: previewText(text), element, branch });
+        result.messages.tokens += tokens;
+        result.messageCount++;
+        result.chat.push({ role, content: text, timestamp: message.createdAt, tokens });
+      }
+    }
+
+    // The full tree is known, so other branches are counted exactly
+    for (const message of inactive.messages) {
+      for (const part of message.parts) {
+        result.branches.inactiveTokens += (await this.countCached(part.text)).tokens;
+      }
+    }
+    result.branches.inactiveCount = inactive.branchCount;
+
+    // Images have no text in the transcript, so keep the DOM estimates for them
+    const images = this.countAttachments('image');
+    result.attachments.items.push(...images.items);
+    result.attachments.tokens += images.tokens;
+    result.attachments.estimatedTokens += images.estimatedTokens;
+    return result;
+  }
+
+  // Project instructions and knowledge, measured on the overview page and cached for its chats
+  private async countProjectBaseline(): Promise<BucketCount & { baseline: ProjectBaseline | null }> {
+    const result = { items: [] as MessageBreakdown[], tokens: 0, estimatedTokens: 0, baseline: null as ProjectBaseline | null };
+    const context = this.adapter.projectContext ? this.adapter.projectContext(window.location) : null;
+    if (!context) return result;
+
+    if (this.projectBaselineId !== context.id) {
+      this.projectBaselineId = context.id;
+      this.projectBaseline = await getProjectBaseline(this.adapter.id, context.id);
+    }
+
+    if (context.isOverview) {
+      const measured = await measureProjectPage(this.adapter, context, async text => (await this.countCached(text)).tokens);
+      // Only write to storage when the measurement actually changed
+      if (measured && measured.tokens !== this.projectBaseline?.tokens) {
+        await saveProjectBaseline(measured);
+      }
+      if (measured) this.projectBaseline = measured;
+    }
+
+    const baseline = this.projectBaseline;
+    if (!baseline) return result;
+    result.baseline = baseline;
+
+    const element = document.querySelector(`a[href*="${CSS.escape(context.id)}"]`) || document.body;
+    if (baseline.instructionsTokens > 0) {
+      result.items.push({
+        role: 'project',
+        tokens: baseline.instructionsTokens,
+        source: 'cached',
+        preview: `Instructions · ${baseline.name}`,
+        element,
+      });
+    }
+    if (baseline.filesTokens > 0) {
+      const capacity = baseline.capacityPercent !== undefined ? `, ${baseline.capacityPercent}% of capacity` : '';
+      result.items.push({
+        role: 'project',
+        tokens: baseline.filesTokens,
+        estimated: baseline.estimated,
+        source: baseline.estimated ? 'estimated' : 'cached',
+        preview: `Knowledge · ${baseline.fileCount} files${capacity}`,
+        element,
+      });
+      if (baseline.estimated) result.estimatedTokens += baseline.filesTokens;
+    }
+    result.tokens = baseline.tokens;
+    return result;
+  }
+
+  private async calculateContext() {
+    // Prevent multiple simultaneous calculations, but remember to run again
+    if (this.isCalculating) {
+      this.pendingCalculation = true;
+      return;
+    }
+
+    try {
+      this.isCalculating = true;
+      this.countRun++;
+      this.approximateReason = undefined;
+
+      const domMessages = this.collectMessages();
+      // Captured network transcripts are exact; DOM scraping is the fallback
+      const conversation = this.capture ? this.capture.current(window.location) : null;
+      const transcript = conversation
+        ? await this.countCapturedTranscript(conversation, domMessages)
+        : await this.countDomTranscript(domMessages);
+      const { messages: messageCount, attachments: attachmentCount, tools: toolCount } = transcript;
+      const projectCount = await this.countProjectBaseline();
+
+      const breakdown = [...projectCount.items, ...messageCount.items, ...attachmentCount.items, ...toolCount.items];
+      let totalTokens = projectCount.tokens + messageCount.tokens + attachmentCount.tokens + toolCount.tokens;
+      const estimatedTokens = projectCount.estimatedTokens + attachmentCount.estimatedTokens + toolCount.estimatedTokens;
+
+      // Keep the breakdown in page order
+      const ordered = sortByDocumentOrder(breakdown.map(item => item.element));
+      breakdown.sort((a, b) => ordered.indexOf(a.element) - ordered.indexOf(b.element));
+
+      // Count tokens in the current input
+      const input = readInput(this.adapter);
+      let draftTokens = 0;
+      if (input && input.text) {
+        const draft = await measureTokens(input.text, this.getEncoding());
+        draftTokens = draft.tokens;
+        breakdown.push({
+          role: 'draft',
+          tokens: draftTokens,
+          source: this.noteSource(draft),
+          preview: previewText(input.text),
+          element: input.element,
+        });
+        totalTokens += draftTokens;
+      }
+
+      // Add what the provider sends but the page doesn't show
+      const hidden = this.estimateHidden(
+        transcript.messageCount + (input && input.text ? 1 : 0),
+        projectCount.baseline?.feature
+      );
+      totalTokens += hidden.tokens;
+
+      const isNewChat = this.adapter.isNewChat(window.location);
+
+      // On an existing chat, keep loading until the model selector shows a real model
+      if (!isNewChat && !this.modelDetected) {
+        this.contextIndicator.update(0, this.getMaxTokens(), true);
+        return;
+      }
+
+      const maxTokens = this.getMaxTokens();
+      const hasMessages = transcript.messageCount > 0;
+
+      // For chat switches: if this is the initial calculation and we found no messages,
+      // check if this might be a chat that's still loading (not a new empty chat)
+      const shouldKeepLoading = !this.hasCompletedInitialLoad && !hasMessages && !isNewChat;
+
+      // Mark initial load as complete only if we found messages or it's a new chat
+      if (!this.hasCompletedInitialLoad && (hasMessages || isNewChat)) {
+        this.hasCompletedInitialLoad = true;
+      }
+
+      const accuracy = summarizeAccuracy(breakdown, this.approximateReason);
+      if ((accuracy.sources.approximate > 0) !== this.offeringRetry) {
+        this.offeringRetry = accuracy.sources.approximate > 0;
+        this.contextIndicator.setActions(this.indicatorActions());
+      }
+
+      // Update with actual count or keep loading state
+      this.updateStatus(totalTokens, maxTokens, shouldKeepLoading);
+      this.contextIndicator.update(totalTokens, maxTokens, shouldKeepLoading, {
+        bufferPercentage: this.settings.bufferPercentage,
+        estimatedTokens: estimatedTokens + hidden.tokens,
+        attachmentCount: attachmentCount.items.length,
+        attachmentTokens: attachmentCount.tokens,
+        toolTokens: toolCount.tokens,
+        droppedReasoningCount: toolCount.droppedReasoning,
+        hiddenTokens: hidden.tokens,
+        hiddenItems: hidden.items,
+        projectTokens: projectCount.tokens,
+        projectName: projectCount.baseline?.name,
+        transcriptSource: conversation ? 'network' : 'dom',
+        branches: transcript.branches,
+        forecast: forecastTurns(usageTurns(messageCount.items), maxTokens - totalTokens, draftTokens),
+        accuracy,
+      });
+      this.contextIndicator.setBreakdown(breakdown, maxTokens, {
+        hiddenTokens: hidden.tokens,
+        branches: transcript.branches,
+      });
+      this.lastCount = {
+        contextTokens: totalTokens - draftTokens,
+        draftText: input ? input.text : '',
+        draftTokens,
+        maxTokens,
+      };
+      this.lastChat = transcript.chat;
+      if (!shouldKeepLoading) {
+        // History tracks the conversation itself, not the unsent draft
+        this.recordUsage(messageCount.items, totalTokens - draftTokens, maxTokens);
+      }
+
+      // Clear old cache entries to prevent memory leaks
+      if (this.tokenCache.size > 1000) {
+        const entriesToKeep = Array.from(this.tokenCache.entries()).slice(-500);
+        this.tokenCache = new Map(entriesToKeep);
+      }
+    } catch (error) {
+      console.error('Error calculating context:', error);
+    } finally {
+      this.isCalculating = false;
+      if (this.pendingCalculation) {
+        this.pendingCalculation = false;
+        this.scheduleCalculation();
+      }
+    }
+  }
+
+  private disconnectObservers() {
+    if (this.observer) {
+      this.observer.disconnect();
+      this.observer = null;
+    }
+    this.observedContainer = null;
+    this.messageTexts = new WeakMap();
+    if (this.inputObserver) {
+      this.inputObserver.disconnect();
+      this.inputObserver = null;
+    }
+    if (this.modelObserver) {
+      this.modelObserver.disconnect();
+      this.modelObserver = null;
+    }
+  }
+
+  public destroy() {
+    this.disconnectObservers();
+    chrome.runtime.onMessage.removeListener(this.handleRuntimeMessage);
+    if (this.capture) {
+      this.capture.destroy();
+      this.capture = null;
+    }
+    if (this.sendGuard) {
+      this.sendGuard.destroy();
+      this.sendGuard = null;
+    }
+    if (this.diagnostics) {
+      this.diagnostics.remove();
+      this.diagnostics = null;
+    }
+    if (this.calculationTimeout) {
+      clearTimeout(this.calculationTimeout);
+    }
+    if (this.urlInterval) {
+      clearInterval(this.urlInterval);
+    }
+    this.contextIndicator.removeIndicator();
+  }
+}
+
+// Initialize a tracker for the adapter with singleton pattern
+export function startTracker(adapter: ProviderAdapter) {
+  let tracker: ContextTracker | null = null;
+
+  const matchesHost = adapter.hostnames.some(host => window.location.hostname.includes(host));
+  if (!matchesHost) return;
+
+  const initializeTracker = () => {
+    const existingIndicator = document.querySelector('#ai-context-indicator');
+    if (!existingIndicator && !tracker) {
+      tracker = new ContextTracker(adapter);
+    }
+  };
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', initializeTracker);
+  } else {
+    // Small delay to ensure page elements are ready
+    setTimeout(initializeTracker, 100);
+  }
+
+  // Clean up on page unload
+  const cleanup = () => {
+    if (tracker) {
+      tracker.destroy();
+      tracker = null;
+    }
+  };
+  window.addEventListener('unload', cleanup);
+  window.addEventListener('beforeunload', cleanup);
+}
@@ -0,0 +1,105 @@
+// Intercepts Enter and the send button when the draft would overflow the context window
+import { createSendGuardDialog } from '../components/SendGuardDialog';
+import { findElement, setInputText } from '../utils/dom';
+import { ProviderSelectors, SendGuardVerdict } from '../types';
+
+export interface SendGuardHooks {
+  readDraft: () => { element: Element; text: string } | null;
+  evaluate: (draft: string) => SendGuardVerdict | null;
+  startNewChat: (draft: string) => void;
+}
+
+// How long a manual send goes through unchecked after the replay found nothing to click
+const MANUAL_SEND_MS = 30000;
+
+export class SendGuard {
+  private dialog = createSendGuardDialog();
+  // Set while a send the user confirmed is replayed, or briefly after it couldn't be
+  private bypass = false;
+
+  private handleKeydown = (event: KeyboardEvent) => {
+    if (event.key !== 'Enter' || event.shiftKey || event.isComposing) return;
+    const draft = this.hooks.readDraft();
+    if (!draft || !draft.element.contains(event.target as Node)) return;
+    this.intercept(event, draft);
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    const target = event.target as Element;
+    if (!this.isSendButton(target)) return;
+    const draft = this.hooks.readDraft();
+    if (draft) this.intercept(event, draft);
+  };
+
+  constructor(private selectors: ProviderSelectors, private hooks: SendGuardHooks) {
+    // Capture phase runs before the page's own handlers
+    document.addEventListener('keydown', this.handleKeydown, true);
+    document.addEventListener('click', this.handleClick, true);
+    document.body.appendChild(this.dialog);
+  }
+
+  private isSendButton(target: Element): boolean {
+    return (this.selectors.sendButton || []).some(selector => {
+      try {
+        return target.closest(selector) !== null;
+      } catch (e) {
+        return false;
+      }
+    });
+  }
+
+  private intercept(event: Event, draft: { element: Element; text: string }) {
+    if (this.bypass || !draft.text.trim()) return;
+    const verdict = this.hooks.evaluate(draft.text);
+    if (!verdict) return;
+
+    event.preventDefault();
+    event.stopImmediatePropagation();
+    this.dialog.show(verdict, {
+      sendAnyway: () => this.send(draft.element),
+      trimDraft: () => this.trim(draft, verdict),
+      newChat: () => this.hooks.startNewChat(draft.text),
+    });
+  }
+
+  // Replay the send through the page's own button or composer form. A synthetic Enter is
+  // untrusted and the sites ignore it, so with neither the user has to send it themselves
+  private send(input: Element) {
+    const button = findElement(this.selectors.sendButton || []) as HTMLElement | null;
+    const form = input.closest('form');
+    if (!button && !form) {
+      this.dialog.notify(
+        `The page's send button and form weren't found. Press Enter or Send yourself within ${MANUAL_SEND_MS / 1000} seconds;` +
+        ' the draft won\'t be checked again until then.'
+      );
+      this.bypass = true;
+      setTimeout(() => {
+        this.bypass = false;
+      }, MANUAL_SEND_MS);
+      return;
+    }
+
+    this.bypass = true;
+    try {
+      if (button) {
+        button.click();
+      } else {
+        form!.requestSubmit();
+      }
+    } finally {
+      this.bypass = false;
+    }
+  }
+
+  // Keep the start of the draft, scaled by the measured chars-per-token ratio
+  private trim(draft: { element: Element; text: string }, verdict: SendGuardVerdict) {
+    const keepChars = Math.floor(draft.text.length * (verdict.allowedDraftTokens / verdict.draftTokens));
+    setInputText(draft.element, draft.text.slice(0, keepChars).trimEnd());
+  }
+
+  public destroy() {
+    document.removeEventListener('keydown', this.handleKeydown, true);
+    document.removeEventListener('click', this.handleClick, true);
+    this.dialog.remove();
+  }
+}
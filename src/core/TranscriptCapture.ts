@@ -0,0 +1,74 @@
+// Receives responses from the main-world capture script and keeps conversation trees per chat
+import { CAPTURE_MESSAGE_SOURCE } from '../parsers/endpoints';
+import { applyExchange } from '../parsers/tree';
+import { CapturedConversation, CapturedExchange, CapturedResponse, TranscriptParser } from '../types';
+
+// Older conversations are dropped beyond this many
+const MAX_CONVERSATIONS = 10;
+
+export class TranscriptCapture {
+  private conversations: Map<string, CapturedConversation> = new Map();
+
+  private handleMessage = (event: MessageEvent) => {
+    if (event.source !== window || event.data?.source !== CAPTURE_MESSAGE_SOURCE) return;
+    if (event.data.kind !== 'response') return;
+
+    const response = event.data.response as CapturedResponse;
+    try {
+      const conversation = this.parser.parseConversation(response);
+      if (conversation) {
+        this.store(conversation);
+        this.onUpdate();
+        return;
+      }
+      const exchange = this.parser.parseStream(response);
+      if (exchange) {
+        this.merge(exchange);
+        this.onUpdate();
+      }
+    } catch (error) {
+      console.error('Failed to parse captured transcript:', error);
+    }
+  };
+
+  constructor(private parser: TranscriptParser, private onUpdate: () => void) {
+    window.addEventListener('message', this.handleMessage);
+    // The capture script runs at document_start; ask it to resend what it saw before we loaded
+    window.postMessage({ source: CAPTURE_MESSAGE_SOURCE, kind: 'replay' }, window.location.origin);
+  }
+
+  // Captured conversation for the open chat, once its full history is known
+  public current(location: Location): CapturedConversation | null {
+    const id = this.parser.pageConversationId(location);
+    const conversation = id ? this.conversations.get(id) : undefined;
+    return conversation && conversation.complete ? conversation : null;
+  }
+
+  private store(conversation: CapturedConversation) {
+    this.conversations.delete(conversation.id);
+    this.conversations.set(conversation.id, conversation);
+    if (this.conversations.size > MAX_CONVERSATIONS) {
+      this.conversations.delete(this.conversations.keys().next().value as string);
+    }
+  }
+
+  private merge(exchange: CapturedExchange) {
+    const id = exchange.conversationId || this.parser.pageConversationId(window.location);
+    if (!id || exchange.messages.length === 0) return;
+
+    const existing = this.conversations.get(id);
+    // A brand-new chat starts at the root, so its history is complete
+    const conversation = existing || { id, messages: {}, currentLeafId: null, complete: exchange.parentId === null };
+
+    let parentId = exchange.parentId !== undefined ? exchange.parentId : conversation.currentLeafId;
+    if (exchange.replacesLeaf && conversation.currentLeafId) {
+      parentId = conversation.messages[conversation.currentLeafId]?.parentId ?? null;
+    }
+    this.store(applyExchange(conversation, exchange.messages, parentId));
+  }
+
+  public destroy() {
+    window.removeEventListener('message', this.handleMessage);
+    this.conversations.clear();
+  }
+}
@@ -0,0 +1,12 @@
+// Chrome offscreen document that keeps the encoders loaded while the service worker sleeps
+import { TOKENIZER_TARGET, handleTokenizerRequest, warmUp } from '../background/tokenizer-service';
+
+warmUp();
+
+chrome.runtime.onMessage.addListener((request: any, _sender: any, sendResponse: any) => {
+  // Content scripts' own messages reach this page too; only answer the service worker's relay
+  if (request.target !== TOKENIZER_TARGET) return false;
+
+  handleTokenizerRequest(request, 'offscreen').then(sendResponse);
+  return true; // Will respond asynchronously
+});
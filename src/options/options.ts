@@ -0,0 +1,509 @@
+// Options page
+import { CustomSite, LocalUIFlavor, OverheadOverride, SendGuardOverride, TokenizerMetrics, UserSettings } from '../types';
+import {
+  getCustomSites,
+  saveCustomSites,
+  getSettings,
+  saveSettings,
+  originPattern,
+  parseOrigin,
+} from '../utils/storage';
+import {
+  LOCAL_DEFAULT_MAX_TOKENS,
+  PROVIDER_PLANS,
+  OVERHEAD_DEFAULTS,
+  OVERHEAD_FEATURES,
+  DEFAULT_REPLY_RESERVE,
+  DEFAULT_HANDOFF_BUDGET,
+} from '../utils/constants';
+import {
+  getCatalog,
+  getCatalogStatus,
+  getProviderModels,
+  storeCatalog,
+  resetCatalog,
+} from '../utils/catalog';
+
+// Providers whose limits can be overridden
+const LIMIT_PROVIDERS: { id: string; label: string }[] = [
+  { id: 'claude', label: 'Claude' },
+  { id: 'chatgpt', label: 'ChatGPT' },
+  { id: 'gemini', label: 'Gemini' },
+];
+
+const FLAVOR_LABELS: { [key in LocalUIFlavor]: string } = {
+  'open-webui': 'Open WebUI',
+  'librechat': 'LibreChat',
+};
+
+function showStatus(element: HTMLElement, message: string, isError: boolean = false) {
+  element.textContent = message;
+  element.classList.toggle('error', isError);
+}
+
+// Parse "model = tokens" lines into a limits table
+function parseModelLines(input: string): { [model: string]: number } {
+  const models: { [model: string]: number } = {};
+  for (const line of input.split('\n')) {
+    const match = line.match(/^\s*(.+?)\s*[=:]\s*(\d+)\s*$/);
+    if (match) {
+      models[match[1]] = parseInt(match[2], 10);
+    }
+  }
+  return models;
+}
+
+function formatModelLines(models: { [model: string]: number | 'variable' }): string {
+  return Object.entries(models).map(([model, tokens]) => `${model} = ${tokens}`).join('\n');
+}
+
+// Parse "model = 85%, 8000" lines; a percentage is the threshold, a bare number the reply reserve
+function parseSendGuardLines(input: string): { [model: string]: SendGuardOverride } {
+  const models: { [model: string]: SendGuardOverride } = {};
+  for (const line of input.split('\n')) {
+    const match = line.match(/^\s*(.+?)\s*[=:]\s*(.+?)\s*$/);
+    if (!match) continue;
+
+    const override: SendGuardOverride = {};
+    for (const part of match[2].split(',').map(value => value.trim())) {
+      const percent = part.match(/^(\d+(?:\.\d+)?)\s*%$/);
+      if (percent) {
+        override.threshold = Math.min(100, parseFloat(percent[1])) / 100;
+      } else if (/^\d+$/.test(part)) {
+        override.replyReserve = parseInt(part, 10);
+      }
+    }
+    if (Object.keys(override).length > 0) models[match[1]] = override;
+  }
+  return models;
+}
+
+function formatSendGuardLines(models: { [model: string]: SendGuardOverride }): string {
+  return Object.entries(models).map(([model, override]) => {
+    const parts: string[] = [];
+    if (override.threshold !== undefined) parts.push(`${Math.round(override.threshold * 100)}%`);
+    if (override.replyReserve !== undefined) parts.push(String(override.replyReserve));
+    return `${model} = ${parts.join(', ')}`;
+  }).join('\n');
+}
+
+function numberInput(id: string, value: number | undefined, placeholder: number): HTMLInputElement {
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.id = id;
+  input.min = '0';
+  input.placeholder = String(placeholder);
+  input.value = value === undefined ? '' : String(value);
+  return input;
+}
+
+function readNumber(id: string): number | undefined {
+  const value = parseInt((document.getElementById(id) as HTMLInputElement).value, 10);
+  return isNaN(value) || value < 0 ? undefined : value;
+}
+
+function renderOverheadFields(overrides: { [provider: string]: OverheadOverride }) {
+  const overheadFields = document.getElementById('overhead-fields')!;
+  overheadFields.innerHTML = '';
+  for (const provider of LIMIT_PROVIDERS) {
+    const defaults = OVERHEAD_DEFAULTS[provider.id];
+    const override = overrides[provider.id] || {};
+
+    const fieldset = document.createElement('fieldset');
+    const legend = document.createElement('legend');
+    legend.textContent = provider.label;
+    fieldset.appendChild(legend);
+
+    const systemLabel = document.createElement('label');
+    systemLabel.htmlFor = `overhead-${provider.id}-system`;
+    systemLabel.textContent = 'System prompt (tokens)';
+    fieldset.append(systemLabel, numberInput(systemLabel.htmlFor, override.systemPrompt, defaults.systemPrompt));
+
+    const modelsLabel = document.createElement('label');
+    modelsLabel.htmlFor = `overhead-${provider.id}-models`;
+    modelsLabel.textContent = 'Per-model system prompt (model = tokens)';
+    const models = document.createElement('textarea');
+    models.id = modelsLabel.htmlFor;
+    models.placeholder = formatModelLines(defaults.models);
+    models.value = formatModelLines(override.models || {});
+    fieldset.append(modelsLabel, models);
+
+    const turnLabel = document.createElement('label');
+    turnLabel.htmlFor = `overhead-${provider.id}-turn`;
+    turnLabel.textContent = 'Formatting per message (tokens)';
+    fieldset.append(turnLabel, numberInput(turnLabel.htmlFor, override.perTurn, defaults.perTurn));
+
+    const table = document.createElement('table');
+    const head = table.createTHead().insertRow();
+    ['Feature', 'Enabled', 'Tokens'].forEach(title => {
+      const th = document.createElement('th');
+      th.textContent = title;
+      head.appendChild(th);
+    });
+    const body = table.createTBody();
+    for (const feature of OVERHEAD_FEATURES) {
+      const row = body.insertRow();
+      row.insertCell().textContent = feature.label;
+
+      const select = document.createElement('select');
+      select.id = `overhead-${provider.id}-${feature.id}-enabled`;
+      const autoDefault = defaults.enabledByDefault.includes(feature.id) ? 'on' : 'off';
+      select.add(new Option(`Auto (default ${autoDefault})`, ''));
+      select.add(new Option('On', 'on'));
+      select.add(new Option('Off', 'off'));
+      const forced = override.enabled?.[feature.id];
+      select.value = forced === undefined ? '' : forced ? 'on' : 'off';
+      row.insertCell().appendChild(select);
+
+      row.insertCell().appendChild(numberInput(
+        `overhead-${provider.id}-${feature.id}-tokens`,
+        override.features?.[feature.id],
+        defaults.features[feature.id]
+      ));
+    }
+    fieldset.appendChild(table);
+
+    overheadFields.appendChild(fieldset);
+  }
+}
+
+// Only keep fields the user actually filled in
+function readOverheadFields(): { [provider: string]: OverheadOverride } {
+  const overrides: { [provider: string]: OverheadOverride } = {};
+  for (const provider of LIMIT_PROVIDERS) {
+    const override: OverheadOverride = {};
+
+    const systemPrompt = readNumber(`overhead-${provider.id}-system`);
+    if (systemPrompt !== undefined) override.systemPrompt = systemPrompt;
+
+    const models = parseModelLines((document.getElementById(`overhead-${provider.id}-models`) as HTMLTextAreaElement).value);
+    if (Object.keys(models).length > 0) override.models = models;
+
+    const perTurn = readNumber(`overhead-${provider.id}-turn`);
+    if (perTurn !== undefined) override.perTurn = perTurn;
+
+    for (const feature of OVERHEAD_FEATURES) {
+      const enabled = (document.getElementById(`overhead-${provider.id}-${feature.id}-enabled`) as HTMLSelectElement).value;
+      if (enabled) {
+        override.enabled = { ...override.enabled, [feature.id]: enabled === 'on' };
+      }
+      const tokens = readNumber(`overhead-${provider.id}-${feature.id}-tokens`);
+      if (tokens !== undefined) {
+        override.features = { ...override.features, [feature.id]: tokens };
+      }
+    }
+
+    if (Object.keys(override).length > 0) overrides[provider.id] = override;
+  }
+  return overrides;
+}
+
+async function renderSettings() {
+  const settings = await getSettings();
+  const catalog = await getCatalog();
+
+  const planFields = document.getElementById('plan-fields')!;
+  planFields.innerHTML = '';
+  for (const [provider, plans] of Object.entries(PROVIDER_PLANS)) {
+    const label = document.createElement('label');
+    label.htmlFor = `plan-${provider}`;
+    label.textContent = LIMIT_PROVIDERS.find(p => p.id === provider)?.label || provider;
+
+    const select = document.createElement('select');
+    select.id = `plan-${provider}`;
+    select.add(new Option('Auto-detect', ''));
+    plans.forEach(plan => select.add(new Option(plan.label, plan.id)));
+    select.value = settings.planOverrides[provider] || '';
+
+    planFields.append(label, select);
+  }
+
+  const limitFields = document.getElementById('limit-fields')!;
+  limitFields.innerHTML = '';
+  for (const provider of LIMIT_PROVIDERS) {
+    const label = document.createElement('label');
+    label.htmlFor = `limits-${provider.id}`;
+    label.textContent = provider.label;
+
+    const textarea = document.createElement('textarea');
+    textarea.id = `limits-${provider.id}`;
+    // Show the largest catalog limit per model as a hint
+    const builtIn: { [model: string]: number } = {};
+    getProviderModels(catalog, provider.id).forEach(model => {
+      builtIn[model.id] = Math.max(...Object.values(model.limits));
+    });
+    textarea.placeholder = formatModelLines(builtIn);
+    textarea.value = formatModelLines(settings.modelLimitOverrides[provider.id] || {});
+
+    limitFields.append(label, textarea);
+  }
+
+  renderOverheadFields(settings.overheadOverrides);
+
+  (document.getElementById('network-capture') as HTMLInputElement).checked = settings.networkCapture;
+  (document.getElementById('selector-diagnostics') as HTMLInputElement).checked = settings.selectorDiagnostics;
+
+  (document.getElementById('send-guard') as HTMLInputElement).checked = settings.sendGuard.enabled;
+  (document.getElementById('reply-reserve') as HTMLInputElement).value = String(settings.sendGuard.replyReserve);
+  (document.getElementById('send-guard-models') as HTMLTextAreaElement).value = formatSendGuardLines(settings.sendGuard.models);
+  (document.getElementById('handoff-budget') as HTMLInputElement).value = String(settings.handoffBudget);
+
+  const bufferInput = document.getElementById('buffer-percentage') as HTMLInputElement;
+  bufferInput.value = String(Math.round(settings.bufferPercentage * 100));
+
+  (document.getElementById('catalog-url') as HTMLInputElement).value = settings.catalogUrl;
+}
+
+async function renderCatalogInfo() {
+  const catalog = await getCatalog();
+  const status = await getCatalogStatus();
+  const info = document.getElementById('catalog-info')!;
+  const source = status && !status.errors ? status.source : 'bundled';
+  info.textContent = `Active catalog: version ${catalog.version} (updated ${catalog.updatedAt}, ${catalog.models.length} models, source: ${source})`;
+
+  if (status?.errors) {
+    showStatus(document.getElementById('catalog-status')!, `Last load from ${status.source} failed: ${status.errors.join('; ')}`, true);
+  }
+}
+
+async function loadCatalogFromUrl() {
+  const status = document.getElementById('catalog-status')!;
+  const url = (document.getElementById('catalog-url') as HTMLInputElement).value.trim();
+  const origin = parseOrigin(url);
+  if (!origin) {
+    showStatus(status, 'Enter a valid http:// or https:// URL.', true);
+    return;
+  }
+
+  // The background script needs host access to fetch the catalog
+  const granted = await chrome.permissions.request({ origins: [originPattern(origin)] });
+  if (!granted) {
+    showStatus(status, `Permission for ${origin} was not granted.`, true);
+    return;
+  }
+
+  const settings = await getSettings();
+  settings.catalogUrl = url;
+  await saveSettings(settings);
+
+  const response = await chrome.runtime.sendMessage({ type: 'REFRESH_CATALOG' });
+  if (!response?.success || response.status?.errors) {
+    const errors = response?.status?.errors || [response?.error || 'Unknown error'];
+    showStatus(status, `Catalog rejected, keeping the previous one: ${errors.join('; ')}`, true);
+  } else {
+    showStatus(status, `Loaded catalog version ${response.status.version}.`);
+  }
+  await renderCatalogInfo();
+}
+
+async function loadCatalogFromFile(event: Event) {
+  const status = document.getElementById('catalog-status')!;
+  const file = (event.target as HTMLInputElement).files?.[0];
+  if (!file) return;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (error) {
+    showStatus(status, `${file.name} is not valid JSON.`, true);
+    return;
+  }
+
+  const result = await storeCatalog(data, `file:${file.name}`);
+  if (result.errors) {
+    showStatus(status, `Catalog rejected, keeping the previous one: ${result.errors.join('; ')}`, true);
+  } else {
+    showStatus(status, `Loaded catalog version ${result.version} from ${file.name}.`);
+  }
+  await renderCatalogInfo();
+}
+
+async function useBundledCatalog() {
+  const settings = await getSettings();
+  settings.catalogUrl = '';
+  await saveSettings(settings);
+  await resetCatalog();
+  (document.getElementById('catalog-url') as HTMLInputElement).value = '';
+  showStatus(document.getElementById('catalog-status')!, 'Using the bundled catalog.');
+  await renderCatalogInfo();
+}
+
+async function saveSettingsForm(event: Event) {
+  event.preventDefault();
+  const status = document.getElementById('settings-status')!;
+  const settings: UserSettings = await getSettings();
+
+  settings.planOverrides = {};
+  for (const provider of Object.keys(PROVIDER_PLANS)) {
+    const value = (document.getElementById(`plan-${provider}`) as HTMLSelectElement).value;
+    if (value) settings.planOverrides[provider] = value;
+  }
+
+  settings.modelLimitOverrides = {};
+  for (const provider of LIMIT_PROVIDERS) {
+    const value = (document.getElementById(`limits-${provider.id}`) as HTMLTextAreaElement).value;
+    const models = parseModelLines(value);
+    if (Object.keys(models).length > 0) settings.modelLimitOverrides[provider.id] = models;
+  }
+
+  settings.overheadOverrides = readOverheadFields();
+  settings.networkCapture = (document.getElementById('network-capture') as HTMLInputElement).checked;
+  settings.selectorDiagnostics = (document.getElementById('selector-diagnostics') as HTMLInputElement).checked;
+
+  const replyReserve = readNumber('reply-reserve');
+  settings.sendGuard = {
+    enabled: (document.getElementById('send-guard') as HTMLInputElement).checked,
+    replyReserve: replyReserve ?? DEFAULT_REPLY_RESERVE,
+    models: parseSendGuardLines((document.getElementById('send-guard-models') as HTMLTextAreaElement).value),
+  };
+
+  settings.handoffBudget = readNumber('handoff-budget') || DEFAULT_HANDOFF_BUDGET;
+
+  const buffer = parseInt((document.getElementById('buffer-percentage') as HTMLInputElement).value, 10);
+  if (isNaN(buffer) || buffer < 0 || buffer > 50) {
+    showStatus(status, 'Safety buffer must be between 0 and 50%.', true);
+    return;
+  }
+  settings.bufferPercentage = buffer / 100;
+
+  await saveSettings(settings);
+  showStatus(status, 'Settings saved. Open chats update automatically.');
+}
+
+async function renderSites() {
+  const list = document.getElementById('site-list') as HTMLTableSectionElement;
+  const sites = await getCustomSites();
+  list.innerHTML = '';
+
+  if (sites.length === 0) {
+    const row = list.insertRow();
+    const cell = row.insertCell();
+    cell.colSpan = 4;
+    cell.className = 'hint';
+    cell.textContent = 'No self-hosted sites added yet.';
+    return;
+  }
+
+  for (const site of sites) {
+    const row = list.insertRow();
+    row.insertCell().textContent = site.origin;
+    row.insertCell().textContent = FLAVOR_LABELS[site.flavor];
+    row.insertCell().textContent = Object.entries(site.models)
+      .map(([model, tokens]) => `${model}: ${tokens.toLocaleString()}`)
+      .join(', ') || `default: ${site.defaultMaxTokens.toLocaleString()}`;
+
+    const removeButton = document.createElement('button');
+    removeButton.className = 'danger';
+    removeButton.textContent = 'Remove';
+    removeButton.addEventListener('click', () => removeSite(site.origin));
+    row.insertCell().appendChild(removeButton);
+  }
+}
+
+async function addSite(event: Event) {
+  event.preventDefault();
+  const status = document.getElementById('site-status')!;
+  const originInput = document.getElementById('site-origin') as HTMLInputElement;
+  const flavorInput = document.getElementById('site-flavor') as HTMLSelectElement;
+  const modelsInput = document.getElementById('site-models') as HTMLTextAreaElement;
+  const defaultInput = document.getElementById('site-default') as HTMLInputElement;
+
+  const origin = parseOrigin(originInput.value);
+  if (!origin) {
+    showStatus(status, 'Enter a valid http:// or https:// origin.', true);
+    return;
+  }
+
+  // Must run inside the click handler so the browser accepts the permission prompt
+  const granted = await chrome.permissions.request({ origins: [originPattern(origin)] });
+  if (!granted) {
+    showStatus(status, `Permission for ${origin} was not granted.`, true);
+    return;
+  }
+
+  const site: CustomSite = {
+    origin,
+    flavor: flavorInput.value as LocalUIFlavor,
+    models: parseModelLines(modelsInput.value),
+    defaultMaxTokens: parseInt(defaultInput.value, 10) || LOCAL_DEFAULT_MAX_TOKENS,
+  };
+
+  // Replace any existing entry for the same origin
+  const sites = (await getCustomSites()).filter(s => s.origin !== origin);
+  sites.push(site);
+  await saveCustomSites(sites);
+
+  showStatus(status, `Added ${origin}. Reload its tabs to start tracking.`);
+  (event.target as HTMLFormElement).reset();
+  await renderSites();
+}
+
+async function removeSite(origin: string) {
+  const sites = (await getCustomSites()).filter(s => s.origin !== origin);
+  await saveCustomSites(sites);
+  await chrome.permissions.remove({ origins: [originPattern(origin)] });
+  await renderSites();
+}
+
+function formatMs(ms: number): string {
+  return ms < 10 ? `${ms.toFixed(1)} ms` : `${Math.round(ms).toLocaleString()} ms`;
+}
+
+async function renderTokenizerMetrics() {
+  const summary = document.getElementById('tokenizer-summary')!;
+  const list = document.getElementById('tokenizer-samples') as HTMLTableSectionElement;
+  const status = document.getElementById('tokenizer-status')!;
+
+  let metrics: TokenizerMetrics;
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_TOKENIZER_METRICS' });
+    if (!response?.success) throw new Error(response?.error || 'No response');
+    metrics = response.metrics;
+  } catch (error: any) {
+    showStatus(status, `Could not reach the tokenizer: ${error.message}`, true);
+    return;
+  }
+  showStatus(status, '');
+
+  const host = metrics.host === 'offscreen' ? 'offscreen document' : 'background page';
+  const coldStarts = Object.entries(metrics.coldStarts)
+    .map(([base, ms]) => `${base} ${formatMs(ms)}`)
+    .join(', ') || 'none loaded yet';
+  const relay = metrics.launches !== undefined
+    ? ` Documents created: ${metrics.launches}, re-sent requests: ${metrics.retries}.`
+    : '';
+  summary.textContent = `Running in the ${host} since ${new Date(metrics.startedAt).toLocaleTimeString()}. ` +
+    `${metrics.requests} requests, ${metrics.failures} failed. Encoder load times: ${coldStarts}.${relay}`;
+
+  list.innerHTML = '';
+  if (metrics.samples.length === 0) {
+    const row = list.insertRow();
+    const cell = row.insertCell();
+    cell.colSpan = 6;
+    cell.className = 'hint';
+    cell.textContent = 'No counts since the tokenizer started.';
+    return;
+  }
+
+  // Newest first
+  for (const sample of [...metrics.samples].reverse()) {
+    const row = list.insertRow();
+    row.insertCell().textContent = new Date(sample.at).toLocaleTimeString();
+    row.insertCell().textContent = sample.encoding;
+    row.insertCell().textContent = String(sample.texts);
+    row.insertCell().textContent = sample.tokens.toLocaleString();
+    row.insertCell().textContent = formatMs(sample.waitMs);
+    row.insertCell().textContent = formatMs(sample.encodeMs);
+  }
+}
+
+document.getElementById('settings-form')!.addEventListener('submit', saveSettingsForm);
+document.getElementById('catalog-load')!.addEventListener('click', loadCatalogFromUrl);
+document.getElementById('catalog-file')!.addEventListener('change', loadCatalogFromFile);
+document.getElementById('catalog-reset')!.addEventListener('click', useBundledCatalog);
+document.getElementById('site-form')!.addEventListener('submit', addSite);
+document.getElementById('tokenizer-refresh')!.addEventListener('click', renderTokenizerMetrics);
+renderSettings();
+renderCatalogInfo();
+renderSites();
+renderTokenizerMetrics();
@@ -0,0 +1,199 @@
+// Transcript parser for ChatGPT conversation JSON and completion streams
+import { CHATGPT_ENDPOINTS } from './endpoints';
+import { parseSSE, parseJSON } from './sse';
+import {
+  CapturedConversation,
+  CapturedExchange,
+  CapturedMessage,
+  CapturedPart,
+  CapturedResponse,
+  TranscriptParser,
+} from '../types';
+
+function role(message: any): CapturedMessage['role'] {
+  const author = message?.author?.role;
+  return author === 'user' || author === 'assistant' || author === 'tool' ? author : 'system';
+}
+
+// Text parts only; image parts are asset pointers without text
+function partsText(parts: any): string {
+  return Array.isArray(parts) ? parts.filter(part => typeof part === 'string').join('\n') : '';
+}
+
+export function parseChatGPTParts(message: any): CapturedPart[] {
+  const content = message?.content || {};
+  const metadata = message?.metadata || {};
+
+  // System prompt and custom instructions belong to the hidden-overhead estimate
+  if (role(message) === 'system' || content.content_type === 'user_editable_context') return [];
+  if (metadata.is_visually_hidden_from_conversation) return [];
+
+  // Assistant messages addressed to a tool are tool calls
+  const isTool = role(message) === 'tool' || (message.recipient && message.recipient !== 'all');
+  const name = isTool ? message.author?.name || message.recipient : undefined;
+
+  let part: CapturedPart | null = null;
+  switch (content.content_type) {
+    case 'text':
+    case 'multimodal_text':
+      part = { kind: isTool ? 'tool' : 'text', text: partsText(content.parts), name };
+      break;
+    case 'thoughts':
+      part = {
+        kind: 'reasoning',
+        text: (content.thoughts || []).map((thought: any) => thought?.content || '').join('\n'),
+      };
+      break;
+    case 'reasoning_recap':
+      // "Thought for 12s" label only
+      break;
+    case 'tether_browsing_display':
+      part = { kind: 'tool', text: content.result || '', name };
+      break;
+    default:
+      if (typeof content.text === 'string') {
+        // code, execution_output, tether_quote, ...
+        part = { kind: 'tool', text: content.text, name };
+      }
+  }
+  return part && part.text ? [part] : [];
+}
+
+function toCapturedMessage(message: any, parentId: string | null): CapturedMessage {
+  // create_time is in seconds
+  const createdAt = typeof message.create_time === 'number' ? Math.round(message.create_time * 1000) : undefined;
+  return { id: message.id, parentId, role: role(message), parts: parseChatGPTParts(message), createdAt };
+}
+
+export function parseChatGPTConversation(response: CapturedResponse): CapturedConversation | null {
+  const match = response.url.match(CHATGPT_ENDPOINTS.conversation);
+  if (!match || response.method !== 'GET') return null;
+
+  const json = parseJSON(response.body);
+  if (!json || typeof json.mapping !== 'object') return null;
+
+  // Every node stays in the tree (even empty system nodes) so parent links hold
+  const messages: { [id: string]: CapturedMessage } = {};
+  for (const [id, node] of Object.entries<any>(json.mapping)) {
+    const message = node?.message || { id };
+    messages[id] = toCapturedMessage({ ...message, id }, node?.parent || null);
+  }
+
+  return {
+    id: json.conversation_id || match[1],
+    messages,
+    currentLeafId: json.current_node || null,
+    complete: true,
+  };
+}
+
+// Apply one JSON-patch-like operation from the v1 delta encoding
+function applyOperation(root: any, path: string, op: string, value: any) {
+  const keys = path.split('/').slice(1);
+  if (keys.length === 0) {
+    if (op === 'add' || op === 'replace') Object.assign(root, value);
+    return;
+  }
+
+  let target = root;
+  for (const key of keys.slice(0, -1)) {
+    if (target[key] === undefined) target[key] = {};
+    target = target[key];
+  }
+  const key = keys[keys.length - 1];
+
+  switch (op) {
+    case 'append':
+      if (Array.isArray(target[key])) {
+        target[key].push(...(Array.isArray(value) ? value : [value]));
+      } else {
+        target[key] = (target[key] || '') + value;
+      }
+      break;
+    case 'truncate':
+      if (Array.isArray(target[key])) target[key].length = value;
+      break;
+    case 'add':
+    case 'replace':
+      target[key] = value;
+      break;
+  }
+}
+
+// Collect final message states from legacy full-message events and v1 deltas
+function parseChatGPTEvents(body: string): { conversationId: string | null; messages: any[] } {
+  let conversationId: string | null = null;
+  const messages = new Map<string, any>();
+  const track = (message: any) => {
+    if (message?.id) messages.set(message.id, message);
+  };
+
+  // Delta ops may omit the path and op of the previous one
+  let root: any = {};
+  let lastPath = '';
+  let lastOp = 'append';
+
+  for (const { event, data } of parseSSE(body)) {
+    const payload = parseJSON(data);
+    if (!payload || typeof payload !== 'object') continue;
+    if (payload.conversation_id) conversationId = payload.conversation_id;
+
+    if (payload.type === 'input_message') {
+      track(payload.input_message);
+      continue;
+    }
+    if (payload.message) {
+      track(payload.message);
+      continue;
+    }
+    if (event !== 'delta' && !('v' in payload)) continue;
+
+    const path = payload.p ?? lastPath;
+    const op = payload.o ?? lastOp;
+    lastPath = path;
+    lastOp = op;
+
+    if (path === '' && op === 'add') {
+      root = { ...payload.v };
+      if (root.conversation_id) conversationId = root.conversation_id;
+      track(root.message);
+    } else if (op === 'patch' && Array.isArray(payload.v)) {
+      payload.v.forEach((change: any) => applyOperation(root, change.p, change.o, change.v));
+    } else {
+      applyOperation(root, path, op, payload.v);
+    }
+  }
+  return { conversationId, messages: Array.from(messages.values()) };
+}
+
+export function parseChatGPTStream(response: CapturedResponse): CapturedExchange | null {
+  if (!CHATGPT_ENDPOINTS.completion.test(response.url) || response.method !== 'POST') return null;
+  if (!response.contentType.includes('event-stream')) return null;
+
+  const request = parseJSON(response.requestBody) || {};
+  const streamed = parseChatGPTEvents(response.body);
+
+  // The prompt is in the request; the stream may echo it as input_message
+  const seen = new Set(streamed.messages.map(message => message.id));
+  const prompts = (Array.isArray(request.messages) ? request.messages : []).filter((message: any) => !seen.has(message?.id));
+
+  const messages = [...prompts, ...streamed.messages]
+    .filter(message => message?.id)
+    .map(message => toCapturedMessage(message, null));
+
+  const conversationId = request.conversation_id || streamed.conversationId;
+  return {
+    conversationId,
+    // New chats hang off a client-side root that never appears in the mapping
+    parentId: request.conversation_id ? request.parent_message_id ?? undefined : null,
+    messages,
+  };
+}
+
+export const chatgptTranscriptParser: TranscriptParser = {
+  pageConversationId(location: Location): string | null {
+    return location.pathname.match(/\/c\/([0-9a-f-]{36})/)?.[1] || null;
+  },
+  parseConversation: parseChatGPTConversation,
+  parseStream: parseChatGPTStream,
+};
@@ -0,0 +1,170 @@
+// Transcript parser for claude.ai conversation JSON and completion streams
+import { CLAUDE_ENDPOINTS } from './endpoints';
+import { parseSSE, parseJSON } from './sse';
+import {
+  CapturedConversation,
+  CapturedExchange,
+  CapturedMessage,
+  CapturedPart,
+  CapturedResponse,
+  TranscriptParser,
+} from '../types';
+
+// parent_message_uuid of the first message in a conversation
+const ROOT_MESSAGE_ID = '00000000-0000-4000-8000-000000000000';
+
+function normalizeParent(id: unknown): string | null {
+  return typeof id === 'string' && id !== ROOT_MESSAGE_ID ? id : null;
+}
+
+// tool_result content is either a string or a list of content blocks
+function contentText(content: any): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(block => (typeof block?.text === 'string' ? block.text : JSON.stringify(block))).join('\n');
+  }
+  return content ? JSON.stringify(content) : '';
+}
+
+export function parseClaudeParts(message: any): CapturedPart[] {
+  const parts: CapturedPart[] = [];
+  for (const block of Array.isArray(message.content) ? message.content : []) {
+    switch (block?.type) {
+      case 'text':
+        if (block.text) parts.push({ kind: 'text', text: block.text });
+        break;
+      case 'thinking':
+        if (block.thinking) parts.push({ kind: 'reasoning', text: block.thinking });
+        break;
+      case 'tool_use':
+        // Streamed tool input arrives as a partial JSON string
+        parts.push({
+          kind: 'tool',
+          name: block.name,
+          text: typeof block.input === 'string' ? block.input : JSON.stringify(block.input ?? {}),
+        });
+        break;
+      case 'tool_result':
+        parts.push({ kind: 'tool', name: block.name, text: contentText(block.content) });
+        break;
+    }
+  }
+
+  // Older messages only have a flat text field
+  if (parts.length === 0 && typeof message.text === 'string' && message.text) {
+    parts.push({ kind: 'text', text: message.text });
+  }
+
+  for (const attachment of Array.isArray(message.attachments) ? message.attachments : []) {
+    if (attachment?.extracted_content) {
+      parts.push({ kind: 'attachment', name: attachment.file_name, text: attachment.extracted_content });
+    }
+  }
+  return parts;
+}
+
+export function parseClaudeConversation(response: CapturedResponse): CapturedConversation | null {
+  const match = response.url.match(CLAUDE_ENDPOINTS.conversation);
+  if (!match || response.method !== 'GET') return null;
+
+  const json = parseJSON(response.body);
+  if (!json || !Array.isArray(json.chat_messages)) return null;
+
+  const messages: { [id: string]: CapturedMessage } = {};
+  for (const message of json.chat_messages) {
+    if (!message?.uuid) continue;
+    messages[message.uuid] = {
+      id: message.uuid,
+      parentId: normalizeParent(message.parent_message_uuid),
+      role: message.sender === 'human' ? 'user' : 'assistant',
+      parts: parseClaudeParts(message),
+      createdAt: message.created_at ? Date.parse(message.created_at) : undefined,
+    };
+  }
+
+  // Without tree=True there's no leaf pointer; the list is the active path
+  const last = json.chat_messages[json.chat_messages.length - 1];
+  return {
+    id: json.uuid || match[1],
+    messages,
+    currentLeafId: json.current_leaf_message_uuid || last?.uuid || null,
+    complete: true,
+  };
+}
+
+// Rebuild the assistant message from content_block_* events
+function parseClaudeEvents(body: string): { id: string | null; content: any[] } {
+  let id: string | null = null;
+  const content: any[] = [];
+
+  for (const { data } of parseSSE(body)) {
+    const event = parseJSON(data);
+    if (!event) continue;
+    switch (event.type) {
+      case 'message_start':
+        id = event.message?.uuid || event.message?.id || null;
+        break;
+      case 'content_block_start':
+        content[event.index] = { ...event.content_block };
+        break;
+      case 'content_block_delta': {
+        const block = content[event.index];
+        const delta = event.delta || {};
+        if (!block) break;
+        if (delta.type === 'text_delta') block.text = (block.text || '') + delta.text;
+        if (delta.type === 'thinking_delta') block.thinking = (block.thinking || '') + delta.thinking;
+        if (delta.type === 'input_json_delta') {
+          block.input = (typeof block.input === 'string' ? block.input : '') + delta.partial_json;
+        }
+        break;
+      }
+    }
+  }
+  return { id, content: content.filter(Boolean) };
+}
+
+export function parseClaudeStream(response: CapturedResponse): CapturedExchange | null {
+  const match = response.url.match(CLAUDE_ENDPOINTS.completion);
+  if (!match || response.method !== 'POST') return null;
+
+  const request = parseJSON(response.requestBody) || {};
+  const isRetry = Boolean(match[2]);
+  const turnIds = request.turn_message_uuids || {};
+  const stamp = Date.now();
+  const messages: CapturedMessage[] = [];
+
+  if (!isRetry && typeof request.prompt === 'string') {
+    messages.push({
+      id: turnIds.human_message_uuid || `${match[1]}:${stamp}:user`,
+      parentId: null,
+      role: 'user',
+      parts: parseClaudeParts({ text: request.prompt, attachments: request.attachments }),
+      createdAt: stamp,
+    });
+  }
+
+  const assistant = parseClaudeEvents(response.body);
+  messages.push({
+    id: turnIds.assistant_message_uuid || assistant.id || `${match[1]}:${stamp}:assistant`,
+    parentId: null,
+    role: 'assistant',
+    parts: parseClaudeParts({ content: assistant.content }),
+    createdAt: stamp,
+  });
+
+  const hasParent = 'parent_message_uuid' in request;
+  return {
+    conversationId: match[1],
+    parentId: hasParent ? normalizeParent(request.parent_message_uuid) : undefined,
+    replacesLeaf: isRetry && !hasParent,
+    messages,
+  };
+}
+
+export const claudeTranscriptParser: TranscriptParser = {
+  pageConversationId(location: Location): string | null {
+    return location.pathname.match(/^\/chat\/([0-9a-f-]{36})/)?.[1] || null;
+  },
+  parseConversation: parseClaudeConversation,
+  parseStream: parseClaudeStream,
+};
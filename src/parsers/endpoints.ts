@@ -0,0 +1,36 @@
+// Network endpoints that carry conversation transcripts, shared by the main-world capture script and the parsers
+
+// window.postMessage tag for captured responses
+export const CAPTURE_MESSAGE_SOURCE = 'ai-context-capture';
+
+// Pages the capture script is registered on
+export const CAPTURE_MATCHES = [
+  'https://claude.ai/*',
+  'https://chatgpt.com/*',
+  'https://chat.openai.com/*',
+];
+
+export const CLAUDE_ENDPOINTS = {
+  // GET /api/organizations/<org>/chat_conversations/<uuid>?tree=True
+  conversation: /\/api\/organizations\/[^/]+\/chat_conversations\/([0-9a-f-]{36})(?:\?|$)/,
+  // POST .../chat_conversations/<uuid>/completion (or retry_completion), streamed as SSE
+  completion: /\/api\/organizations\/[^/]+\/chat_conversations\/([0-9a-f-]{36})\/(retry_)?completion(?:\?|$)/,
+};
+
+export const CHATGPT_ENDPOINTS = {
+  // GET /backend-api/conversation/<uuid>
+  conversation: /\/backend-api\/conversation\/([0-9a-f-]{36})(?:\?|$)/,
+  // POST /backend-api/conversation (or /backend-api/f/conversation), streamed as SSE
+  completion: /\/backend-api\/(?:f\/)?conversation(?:\?|$)/,
+};
+
+const ENDPOINTS_BY_HOST: { [hostname: string]: RegExp[] } = {
+  'claude.ai': Object.values(CLAUDE_ENDPOINTS),
+  'chatgpt.com': Object.values(CHATGPT_ENDPOINTS),
+  'chat.openai.com': Object.values(CHATGPT_ENDPOINTS),
+};
+
+export function isCaptureEndpoint(hostname: string, url: string): boolean {
+  const patterns = ENDPOINTS_BY_HOST[hostname] || [];
+  return patterns.some(pattern => pattern.test(url));
+}
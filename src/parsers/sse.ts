@@ -0,0 +1,35 @@
+// Server-sent event helpers for recorded streams
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+// Split a complete event-stream body into events
+export function parseSSE(text: string): SSEEvent[] {
+  const events: SSEEvent[] = [];
+  for (const block of text.split(/\r?\n\r?\n/)) {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+    if (data.length > 0) {
+      events.push({ event, data: data.join('\n') });
+    }
+  }
+  return events;
+}
+
+export function parseJSON(text: string | undefined): any {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return null;
+  }
+}
@@ -0,0 +1,54 @@
+// Message-tree helpers for captured conversations
+import { BranchPosition, CapturedConversation, CapturedMessage } from '../types';
+
+// Messages from the root to the current leaf; stops early at a parent that was never captured
+export function activePath(conversation: CapturedConversation): CapturedMessage[] {
+  const path: CapturedMessage[] = [];
+  const seen = new Set<string>();
+  let id = conversation.currentLeafId;
+  while (id && conversation.messages[id] && !seen.has(id)) {
+    seen.add(id);
+    path.push(conversation.messages[id]);
+    id = conversation.messages[id].parentId;
+  }
+  return path.reverse();
+}
+
+// Append a streamed exchange below its parent and make it the current branch
+export function applyExchange(
+  conversation: CapturedConversation,
+  messages: CapturedMessage[],
+  parentId: string | null
+): CapturedConversation {
+  const merged = { ...conversation.messages };
+  let parent = parentId;
+  for (const message of messages) {
+    merged[message.id] = { ...message, parentId: parent };
+    parent = message.id;
+  }
+  return { ...conversation, messages: merged, currentLeafId: parent };
+}
+
+// Siblings in insertion order, skipping empty nodes
+function siblings(conversation: CapturedConversation, message: CapturedMessage): CapturedMessage[] {
+  return Object.values(conversation.messages)
+    .filter(other => other.parentId === message.parentId && other.parts.length > 0);
+}
+
+export function branchPosition(conversation: CapturedConversation, message: CapturedMessage): BranchPosition | null {
+  const all = siblings(conversation, message);
+  if (all.length < 2) return null;
+  return { index: all.indexOf(message) + 1, total: all.length };
+}
+
+// Messages on branches the active path doesn't follow, and how many such branches start off it
+export function inactiveBranches(
+  conversation: CapturedConversation,
+  path: CapturedMessage[]
+): { messages: CapturedMessage[]; branchCount: number } {
+  const onPath = new Set(path.map(message => message.id));
+  const messages = Object.values(conversation.messages)
+    .filter(message => !onPath.has(message.id) && message.parts.length > 0);
+  const branchCount = messages.filter(message => message.parentId === null || onPath.has(message.parentId)).length;
+  return { messages, branchCount };
+}
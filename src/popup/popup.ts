@@ -0,0 +1,143 @@
+// Toolbar popup: live status for the active tab and recently tracked conversations
+import { ConversationUsage, TrackerStatus } from '../types';
+import { listRecentUsage } from '../utils/history';
+import { PROVIDER_LABELS } from '../utils/constants';
+
+// How often the active tab's status is refreshed while the popup is open
+const STATUS_POLL_MS = 1000;
+
+// Same palette as the floating indicator
+function usageColor(percentage: number): string {
+  if (percentage > 90) return '#f44336';
+  if (percentage > 70) return '#ff9800';
+  return '#4caf50';
+}
+
+function percentOf(tokens: number, maxTokens: number): number {
+  return maxTokens > 0 ? Math.round((tokens / maxTokens) * 100) : 0;
+}
+
+function renderEntry(
+  title: string,
+  details: string,
+  tokens: number,
+  maxTokens: number,
+  suffix: string = ''
+): HTMLElement {
+  const percentage = percentOf(tokens, maxTokens);
+
+  const entry = document.createElement('div');
+  entry.className = 'entry';
+
+  const titleRow = document.createElement('div');
+  titleRow.className = 'title';
+  titleRow.textContent = title;
+  titleRow.title = title;
+
+  const meta = document.createElement('div');
+  meta.className = 'meta';
+  const left = document.createElement('span');
+  left.textContent = details;
+  const right = document.createElement('span');
+  right.textContent = `${tokens.toLocaleString()} / ${maxTokens.toLocaleString()} (${percentage}%)${suffix}`;
+  meta.append(left, right);
+
+  const bar = document.createElement('div');
+  bar.className = 'bar';
+  const fill = document.createElement('div');
+  fill.style.width = `${Math.min(percentage, 100)}%`;
+  fill.style.background = usageColor(percentage);
+  bar.appendChild(fill);
+
+  entry.append(titleRow, meta, bar);
+  return entry;
+}
+
+function describe(provider: string, model: string): string {
+  const label = PROVIDER_LABELS[provider] || provider;
+  return model ? `${label} · ${model}` : label;
+}
+
+async function getActiveStatus(): Promise<TrackerStatus | null> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.id) return null;
+  try {
+    const response = await chrome.tabs.sendMessage(tab.id, { type: 'GET_STATUS' });
+    return response?.success ? response.status : null;
+  } catch (error) {
+    // No tracker in this tab
+    return null;
+  }
+}
+
+async function renderActive() {
+  const container = document.getElementById('active')!;
+  const status = await getActiveStatus();
+
+  container.textContent = '';
+  if (!status) {
+    const hint = document.createElement('p');
+    hint.className = 'hint';
+    hint.textContent = 'Not a supported chat page.';
+    container.appendChild(hint);
+    return;
+  }
+
+  const title = status.conversationId ? status.title || 'Untitled chat' : 'New chat';
+  const suffix = status.isLoading ? ' · counting…' : '';
+  container.appendChild(
+    renderEntry(title, describe(status.provider, status.model), status.totalTokens, status.maxTokens, suffix)
+  );
+}
+
+async function renderRecent() {
+  const container = document.getElementById('recent')!;
+  const usages = await listRecentUsage();
+
+  container.textContent = '';
+  if (usages.length === 0) {
+    const hint = document.createElement('p');
+    hint.className = 'hint';
+    hint.textContent = 'No conversations tracked yet.';
+    container.appendChild(hint);
+    return;
+  }
+
+  const byFullness = (a: ConversationUsage, b: ConversationUsage) =>
+    percentOf(b.totalTokens, b.maxTokens) - percentOf(a.totalTokens, a.maxTokens);
+
+  usages.sort(byFullness).forEach(usage => {
+    const entry = renderEntry(
+      usage.title || usage.url,
+      describe(usage.provider, usage.model),
+      usage.totalTokens,
+      usage.maxTokens
+    );
+    entry.title = usage.url;
+    entry.addEventListener('click', () => {
+      chrome.tabs.create({ url: usage.url });
+      window.close();
+    });
+    container.appendChild(entry);
+  });
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+  document.getElementById('open-options')!.addEventListener('click', (event) => {
+    event.preventDefault();
+    chrome.runtime.openOptionsPage();
+  });
+
+  // The calculator checks content against the conversation in this tab
+  document.getElementById('open-calculator')!.addEventListener('click', async (event) => {
+    event.preventDefault();
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    const query = tab?.id !== undefined ? `?tab=${tab.id}` : '';
+    chrome.tabs.create({ url: chrome.runtime.getURL(`calculator/calculator.html${query}`) });
+    window.close();
+  });
+
+  renderActive();
+  renderRecent();
+  setInterval(renderActive, STATUS_POLL_MS);
+});
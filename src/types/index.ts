@@ -2,6 +2,9 @@ export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp?: number;
+  tokens: number;
+  // Code blocks as shown on the page; markdown fences are parsed when missing
+  codeBlocks?: string[];
 }
 
 export interface TokenCount {
@@ -17,10 +20,510 @@ export interface ModelConfig {
   identifier: string;
 }
 
+// Where a count came from: a tokenizer call, the tracker's cache, the length fallback or a heuristic estimate
+export type CountSource = 'exact' | 'cached' | 'approximate' | 'estimated';
+
+export interface MessageBreakdown {
+  role: 'user' | 'assistant' | 'draft' | 'attachment' | 'tool' | 'project';
+  tokens: number;
+  // True when the count is an estimate rather than tokenizer output
+  estimated?: boolean;
+  source?: CountSource;
+  // Short excerpt of the message text
+  preview: string;
+  // Page element to scroll to
+  element: Element;
+  // Position among sibling branches when the message was edited or regenerated
+  branch?: BranchPosition;
+}
+
+export interface BranchPosition {
+  // 1-based
+  index: number;
+  total: number;
+}
+
+// Branches off the active path, which the provider doesn't send
+export interface BranchSummary {
+  inactiveTokens: number;
+  inactiveCount: number;
+  // Branches the tracker hasn't seen yet (DOM scraping only learns a branch once it's shown)
+  unseenCount: number;
+}
+
+// Totals shown above the breakdown rows
+export interface BreakdownSummary {
+  hiddenTokens: number;
+  branches: BranchSummary;
+}
+
+export interface IndicatorDetails {
+  bufferPercentage: number;
+  // Portion of the total that comes from estimates (attachments etc.)
+  estimatedTokens: number;
+  attachmentCount: number;
+  attachmentTokens: number;
+  // Reasoning, tool output and search results
+  toolTokens: number;
+  // Reasoning blocks from earlier turns that the provider drops from context
+  droppedReasoningCount: number;
+  // Estimated hidden tokens (system prompt, features, formatting) included in the total
+  hiddenTokens: number;
+  hiddenItems: OverheadItem[];
+  // Project instructions and knowledge loaded into every chat of the project
+  projectTokens: number;
+  projectName?: string;
+  // Where the transcript came from: DOM scraping or captured network traffic
+  transcriptSource: 'dom' | 'network';
+  branches: BranchSummary;
+  forecast: TurnForecast | null;
+  accuracy: CountAccuracy;
+}
+
+// How much of the total isn't exact tokenizer output
+export interface CountAccuracy {
+  // Line items per source
+  sources: { [source in CountSource]: number };
+  // Tokens counted with the length fallback
+  approximateTokens: number;
+  // Why the tokenizer couldn't be used
+  approximateReason?: string;
+}
+
+// How many more exchanges fit, from the recent user+assistant turn sizes
+export interface TurnForecast {
+  averageExchangeTokens: number;
+  expectedReplyTokens: number;
+  // Unsent input, already part of the current count
+  draftTokens: number;
+  turnsRemaining: number;
+}
+
 export interface ContextIndicatorState {
   currentTokens: number;
   maxTokens: number;
   percentage: number;
   color: string;
   isFlashing: boolean;
-}
\ No newline at end of file
+}
+
+// Provider adapter framework
+export type ProviderId = 'claude' | 'chatgpt' | 'gemini' | 'open-webui' | 'librechat';
+// Tokenizer encoding named per model in the catalog (see src/utils/encodings.ts)
+export type EncodingId = 'o200k_base' | 'cl100k_base' | 'claude' | 'gemini-approx' | 'llama-approx';
+
+export type ModelLimitTable = { [model: string]: number | 'variable' };
+
+export interface ProviderSelectors {
+  chatContainer: string[];
+  userMessages: string[];
+  assistantMessages: string[];
+  inputField: string[];
+  modelSelector: string[];
+  planIndicators?: string[];
+  mainContent: string[];
+  // File chips, image thumbnails and artifact cards
+  attachments?: string[];
+  // Collapsed "Thought for Xs" / extended thinking blocks inside assistant messages
+  reasoning?: string[];
+  // Tool-call, code-interpreter and analysis outputs inside assistant messages
+  toolOutputs?: string[];
+  // Web-search citation links inside assistant messages
+  citations?: string[];
+  // "2 / 3" sibling-branch counters next to edited or regenerated messages
+  branchNavigator?: string[];
+  // Project overview page: instructions preview, knowledge file rows and capacity meter
+  projectInstructions?: string[];
+  projectFiles?: string[];
+  projectCapacity?: string[];
+  // Composer send button, watched by the pre-send guard
+  sendButton?: string[];
+}
+
+export interface MessageNodes {
+  user: Element[];
+  assistant: Element[];
+}
+
+// A message read from the page, with the text counted for it
+export interface DomMessage {
+  role: 'user' | 'assistant';
+  element: Element;
+  text: string;
+}
+
+export type AttachmentKind = 'text' | 'image' | 'pdf' | 'artifact' | 'other';
+export type ImageTokenFormula = 'claude' | 'openai' | 'gemini';
+
+export interface AttachmentInfo {
+  name: string;
+  kind: AttachmentKind;
+  width?: number;
+  height?: number;
+  pages?: number;
+  lines?: number;
+  sizeBytes?: number;
+}
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  hostnames: string[];
+  // Encoding for models the catalog doesn't list
+  encoding: EncodingId;
+  selectors: ProviderSelectors;
+  // Limits table per plan id; when omitted the model catalog is used
+  limits?: { [plan: string]: ModelLimitTable };
+  defaultModel: string;
+  defaultPlan: string;
+  // Used when the model limit is unknown or 'variable'
+  fallbackMaxTokens: number;
+  // Debounce delay for recalculation after DOM mutations
+  debounceMs: number;
+  systemPromptNote: string;
+
+  // Keep loading until the model selector shows a catalog model instead of assuming the default
+  requireModelLabel?: boolean;
+
+  // Custom model detection for adapters that don't use the catalog
+  detectModel?(text: string, plan: string): string | null;
+  detectPlan(): string;
+  isNewChat(location: Location): boolean;
+  // Path that opens an empty chat (defaults to '/')
+  newChatPath?: string;
+  // Strip URL parts that don't identify the conversation (e.g. ?model=)
+  normalizeUrl?(url: string): string;
+  // Stable id of the open conversation; defaults to the URL path, null on new chats
+  conversationId?(location: Location): string | null;
+  // Last-resort message detection when the primary selectors come up empty
+  fallbackMessages?(found: MessageNodes): MessageNodes;
+  messageText?(element: Element, role: 'user' | 'assistant'): string;
+  inputText?(element: Element): string;
+
+  // Per-image token rules (defaults to 'openai')
+  imageTokenFormula?: ImageTokenFormula;
+  // Estimated tokens per PDF page
+  pdfTokensPerPage?: number;
+  // Site-specific attachment parsing; falls back to generic chip parsing
+  describeAttachment?(element: Element): AttachmentInfo | null;
+
+  // Whether reasoning from earlier turns stays in context (defaults to 'drop-prior')
+  reasoningRetention?: 'drop-prior' | 'keep';
+  // Estimated tokens each cited search result adds to context
+  searchResultTokens?: number;
+
+  // Which overhead features are on; features left out fall back to their defaults
+  detectFeatures?(): { [feature in OverheadFeature]?: boolean };
+
+  // Project (or custom GPT) the current page belongs to
+  projectContext?(location: Location): ProjectContext | null;
+  // Tokens that correspond to 100% of the displayed project capacity
+  projectCapacityTokens?: number;
+
+  // Rebuilds the transcript from captured network traffic (opt-in)
+  transcriptParser?: TranscriptParser;
+}
+
+// Transcript rebuilt from the conversation JSON and streams the page fetches
+export interface CapturedPart {
+  kind: 'text' | 'reasoning' | 'tool' | 'attachment';
+  text: string;
+  // Tool or file name
+  name?: string;
+}
+
+export interface CapturedMessage {
+  id: string;
+  // null for messages at the root of the tree
+  parentId: string | null;
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  parts: CapturedPart[];
+  // Epoch milliseconds, when the provider sends one
+  createdAt?: number;
+}
+
+export interface CapturedConversation {
+  id: string;
+  messages: { [id: string]: CapturedMessage };
+  currentLeafId: string | null;
+  // False while only later exchanges are known (the full history was never fetched)
+  complete: boolean;
+}
+
+// New messages from one streamed request, in order
+export interface CapturedExchange {
+  conversationId: string | null;
+  // Parent of the first message; undefined continues from the current leaf
+  parentId?: string | null;
+  // Regenerations replace the current leaf with a sibling
+  replacesLeaf?: boolean;
+  messages: CapturedMessage[];
+}
+
+// Raw response forwarded by the main-world capture script
+export interface CapturedResponse {
+  url: string;
+  method: string;
+  requestBody?: string;
+  contentType: string;
+  body: string;
+}
+
+export interface TranscriptParser {
+  pageConversationId(location: Location): string | null;
+  // Full conversation fetched by the page; null when the response isn't one
+  parseConversation(response: CapturedResponse): CapturedConversation | null;
+  // Streamed completion; null when the response isn't one
+  parseStream(response: CapturedResponse): CapturedExchange | null;
+}
+
+export interface ProjectContext {
+  id: string;
+  // True on the page that lists the project's instructions and files
+  isOverview: boolean;
+  // Overhead feature the measured baseline replaces
+  feature: OverheadFeature;
+}
+
+// Measured project instructions and knowledge, cached per project
+export interface ProjectBaseline {
+  provider: ProviderId;
+  projectId: string;
+  name: string;
+  feature: OverheadFeature;
+  instructionsTokens: number;
+  fileCount: number;
+  filesTokens: number;
+  // Share of project capacity the provider reported as used
+  capacityPercent?: number;
+  tokens: number;
+  estimated: boolean;
+  updatedAt: number;
+}
+
+// Hidden context the provider adds around the visible transcript
+export type OverheadFeature = 'memory' | 'customInstructions' | 'projectKnowledge' | 'tools' | 'styles';
+
+export interface OverheadProfile {
+  // Base system prompt
+  systemPrompt: number;
+  // Per-model system prompt sizes that replace the base one
+  models: { [model: string]: number };
+  // Chat-template formatting added to every message
+  perTurn: number;
+  // Tokens each feature adds when enabled
+  features: { [feature in OverheadFeature]: number };
+  // Features assumed on when the page doesn't tell
+  enabledByDefault: OverheadFeature[];
+}
+
+// User adjustments to a provider's overhead profile
+export interface OverheadOverride {
+  systemPrompt?: number;
+  models?: { [model: string]: number };
+  perTurn?: number;
+  features?: { [feature in OverheadFeature]?: number };
+  // Forced on/off per feature; missing means auto-detect
+  enabled?: { [feature in OverheadFeature]?: boolean };
+}
+
+export interface OverheadItem {
+  label: string;
+  tokens: number;
+}
+
+// Self-hosted chat UIs registered from the options page
+export type LocalUIFlavor = 'open-webui' | 'librechat';
+
+export interface CustomSite {
+  origin: string;
+  flavor: LocalUIFlavor;
+  // Model id (as shown in the UI's model selector) -> context window
+  models: { [model: string]: number };
+  defaultMaxTokens: number;
+}
+
+// Per-conversation usage saved after each recalculation (IndexedDB in the background)
+export interface UsageTurn {
+  role: 'user' | 'assistant';
+  tokens: number;
+}
+
+export interface ConversationUsage {
+  // provider:conversationId
+  key: string;
+  provider: ProviderId;
+  conversationId: string;
+  url: string;
+  title: string;
+  model: string;
+  totalTokens: number;
+  maxTokens: number;
+  // Tokens outside the chat turns (hidden overhead, project, files, tools)
+  baseTokens: number;
+  turns: UsageTurn[];
+  updatedAt: number;
+}
+
+// Live state of a tab's tracker, for the toolbar popup
+export interface TrackerStatus {
+  provider: ProviderId;
+  conversationId: string | null;
+  title: string;
+  model: string;
+  plan: string;
+  totalTokens: number;
+  maxTokens: number;
+  isLoading: boolean;
+}
+
+// One tokenizer request as timed by the context that served it
+export interface TokenizerSample {
+  at: number;
+  encoding: string;
+  texts: number;
+  tokens: number;
+  // Time spent waiting for the encoder; the cold start when this request had to load it
+  waitMs: number;
+  encodeMs: number;
+}
+
+export interface TokenizerMetrics {
+  host: 'offscreen' | 'background';
+  startedAt: number;
+  requests: number;
+  failures: number;
+  // Load time per base encoding
+  coldStarts: { [base: string]: number };
+  samples: TokenizerSample[];
+  // Offscreen documents created and requests re-sent by the Chrome service worker since it last woke
+  launches?: number;
+  retries?: number;
+}
+
+// One fallback selector and how many nodes it matches
+export interface SelectorProbe {
+  selector: string;
+  count: number;
+  // The browser rejected the selector (e.g. unsupported :has())
+  invalid?: boolean;
+}
+
+export interface SelectorGroupHealth {
+  group: string;
+  // First selector that matched, the one findElement would pick; null when none did
+  matched: string | null;
+  // Distinct nodes across all selectors, as findAllElements returns them
+  count: number;
+  // False when the adapter doesn't define the group
+  configured: boolean;
+  probes: SelectorProbe[];
+}
+
+// Selector health for bug reports when a site redesign breaks detection
+export interface DiagnosticReport {
+  provider: ProviderId;
+  version: string;
+  url: string;
+  userAgent: string;
+  generatedAt: number;
+  model: { detected: boolean; id: string; label: string };
+  plan: { id: string; source: 'override' | 'detected' };
+  tracker: { isLoading: boolean; totalTokens: number; maxTokens: number };
+  groups: SelectorGroupHealth[];
+}
+
+// Pre-send guard limits for one model; missing fields use the defaults
+export interface SendGuardOverride {
+  // Share of the context window a send may fill, e.g. 0.85
+  threshold?: number;
+  replyReserve?: number;
+}
+
+export interface SendGuardSettings {
+  enabled: boolean;
+  // Tokens kept free for the reply
+  replyReserve: number;
+  models: { [model: string]: SendGuardOverride };
+}
+
+// Transcript export with per-message token annotations
+export type ExportFormat = 'markdown' | 'json' | 'csv';
+
+export interface TranscriptExport {
+  provider: ProviderId;
+  title: string;
+  url: string;
+  model: string;
+  maxTokens: number;
+  // Full context count, including what isn't a chat message
+  totalTokens: number;
+  exportedAt: number;
+  messages: ChatMessage[];
+}
+
+// Button in the breakdown panel's action row
+export interface IndicatorAction {
+  label: string;
+  title: string;
+  run: () => void;
+}
+
+// Why a send was held back
+export interface SendGuardVerdict {
+  // Current context without the draft
+  contextTokens: number;
+  draftTokens: number;
+  replyReserve: number;
+  // Window share the guard allows, in tokens
+  limitTokens: number;
+  maxTokens: number;
+  // Largest draft that would still fit, 0 if none
+  allowedDraftTokens: number;
+}
+
+// User settings from the options page
+export interface UserSettings {
+  // Forced plan per provider; missing means auto-detect
+  planOverrides: { [provider: string]: string };
+  // Per-provider model limits that override or extend the built-in tables
+  modelLimitOverrides: { [provider: string]: { [model: string]: number } };
+  bufferPercentage: number;
+  // Remote model-catalog.json to load instead of the bundled copy
+  catalogUrl: string;
+  // Per-provider hidden-overhead adjustments
+  overheadOverrides: { [provider: string]: OverheadOverride };
+  // Read the conversation from the page's own network traffic instead of the DOM
+  networkCapture: boolean;
+  // Hold back sends that would overflow the window
+  sendGuard: SendGuardSettings;
+  // Token budget for "continue in new chat" handoff blocks
+  handoffBudget: number;
+  // Show the selector diagnostics overlay on chat pages
+  selectorDiagnostics: boolean;
+}
+
+// Versioned model catalog (see src/catalog/model-catalog.json)
+export interface CatalogModel {
+  provider: string;
+  id: string;
+  // Lowercase fragments of the model selector label that identify this model
+  aliases: string[];
+  // Context window per plan id; a model missing from a plan isn't offered on it
+  limits: { [plan: string]: number };
+  encoding: string;
+}
+
+export interface ModelCatalog {
+  schemaVersion: number;
+  // Monotonic catalog revision; newer catalogs replace the bundled one
+  version: number;
+  updatedAt: string;
+  models: CatalogModel[];
+}
+
+export interface CatalogStatus {
+  source: string;
+  version?: number;
+  loadedAt: number;
+  errors?: string[];
+}
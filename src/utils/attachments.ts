@@ -0,0 +1,117 @@
+// Token estimates for uploaded files, images and artifacts
+import { ATTACHMENT_ESTIMATES } from './constants';
+import { AttachmentInfo, AttachmentKind, ImageTokenFormula } from '../types';
+
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'csv', 'tsv', 'json', 'yaml', 'yml', 'xml', 'html', 'css', 'log',
+  'js', 'jsx', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'cs',
+  'php', 'swift', 'sh', 'sql', 'toml', 'ini',
+];
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'heic', 'bmp'];
+
+export function classifyFileName(name: string): AttachmentKind {
+  const extension = name.toLowerCase().split('.').pop() || '';
+  if (extension === 'pdf') return 'pdf';
+  if (IMAGE_EXTENSIONS.includes(extension)) return 'image';
+  if (TEXT_EXTENSIONS.includes(extension)) return 'text';
+  return 'other';
+}
+
+// Parse "12 KB", "1.5 MB" etc. into bytes
+function parseSize(text: string): number | undefined {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(B|KB|MB)\b/i);
+  if (!match) return undefined;
+  const units: { [unit: string]: number } = { b: 1, kb: 1024, mb: 1024 * 1024 };
+  return Math.round(parseFloat(match[1]) * units[match[2].toLowerCase()]);
+}
+
+function parseCount(text: string, noun: string): number | undefined {
+  const match = text.match(new RegExp(`(\\d[\\d,]*)\\s*${noun}`, 'i'));
+  return match ? parseInt(match[1].replace(/,/g, ''), 10) : undefined;
+}
+
+// Generic chip parsing: name from title/aria-label/alt, details from the chip text
+export function describeAttachmentElement(element: Element): AttachmentInfo | null {
+  const image = element instanceof HTMLImageElement ? element : element.querySelector('img');
+  const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+  const fileName = text.match(/\S+\.[a-z0-9]{1,5}\b/i)?.[0];
+  const name = element.getAttribute('title') ||
+    element.getAttribute('aria-label') ||
+    fileName ||
+    image?.getAttribute('alt') ||
+    text.substring(0, 40) ||
+    'attachment';
+
+  let kind = classifyFileName(name);
+  if (kind === 'other' && image && !text) {
+    kind = 'image';
+  } else if (kind === 'other' && /\bpdf\b/i.test(text)) {
+    kind = 'pdf';
+  }
+
+  return {
+    name,
+    kind,
+    width: kind === 'image' && image ? image.naturalWidth || undefined : undefined,
+    height: kind === 'image' && image ? image.naturalHeight || undefined : undefined,
+    pages: parseCount(text, 'pages?'),
+    lines: parseCount(text, 'lines?'),
+    sizeBytes: parseSize(text),
+  };
+}
+
+// Per-image token formulas published by each provider
+export function estimateImageTokens(formula: ImageTokenFormula, width?: number, height?: number): number {
+  let w = width || ATTACHMENT_ESTIMATES.DEFAULT_IMAGE_SIZE;
+  let h = height || ATTACHMENT_ESTIMATES.DEFAULT_IMAGE_SIZE;
+
+  switch (formula) {
+    case 'claude': {
+      // Images are downscaled to a 1568px long edge; tokens = w * h / 750
+      const scale = Math.min(1, 1568 / Math.max(w, h));
+      w *= scale;
+      h *= scale;
+      return Math.min(1600, Math.ceil((w * h) / 750));
+    }
+    case 'gemini': {
+      // Small images cost 258 tokens; larger ones are tiled at 768x768, 258 per tile
+      if (w <= 384 && h <= 384) return 258;
+      return Math.ceil(w / 768) * Math.ceil(h / 768) * 258;
+    }
+    default: {
+      // High detail: fit in 2048x2048, shortest side to 768, then 170 per 512px tile + 85
+      const fit = Math.min(1, 2048 / Math.max(w, h));
+      w *= fit;
+      h *= fit;
+      const shrink = Math.min(1, 768 / Math.min(w, h));
+      w *= shrink;
+      h *= shrink;
+      return 85 + 170 * Math.ceil(w / 512) * Math.ceil(h / 512);
+    }
+  }
+}
+
+// Chips only show a name, size or preview, never the file itself, so this is always an estimate
+export function estimateAttachmentTokens(
+  info: AttachmentInfo,
+  imageFormula: ImageTokenFormula,
+  pdfTokensPerPage: number
+): number {
+  switch (info.kind) {
+    case 'image':
+      return estimateImageTokens(imageFormula, info.width, info.height);
+    case 'pdf': {
+      const pages = info.pages ||
+        (info.sizeBytes ? Math.max(1, Math.round(info.sizeBytes / ATTACHMENT_ESTIMATES.BYTES_PER_PDF_PAGE)) : 0) ||
+        ATTACHMENT_ESTIMATES.DEFAULT_PDF_PAGES;
+      return pages * pdfTokensPerPage;
+    }
+    case 'artifact':
+      return info.lines ? info.lines * ATTACHMENT_ESTIMATES.TOKENS_PER_LINE : ATTACHMENT_ESTIMATES.DEFAULT_ARTIFACT;
+    default: {
+      if (info.lines) return info.lines * ATTACHMENT_ESTIMATES.TOKENS_PER_LINE;
+      if (info.sizeBytes) return Math.ceil(info.sizeBytes / ATTACHMENT_ESTIMATES.BYTES_PER_TOKEN);
+      return ATTACHMENT_ESTIMATES.DEFAULT_TEXT_FILE;
+    }
+  }
+}
@@ -0,0 +1,29 @@
+// Sibling-branch navigators ("< 2 / 3 >") shown after edits and regenerations
+import { findAllElements } from './dom';
+import { BranchPosition } from '../types';
+
+// How far up from a message element to look for its navigator
+const MAX_ANCESTOR_DEPTH = 3;
+
+export function parseBranchPosition(text: string): BranchPosition | null {
+  const match = text.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match) return null;
+  const index = parseInt(match[1], 10);
+  const total = parseInt(match[2], 10);
+  return total > 1 && index >= 1 && index <= total ? { index, total } : null;
+}
+
+// Navigators often sit next to the message body, so also search ancestors that hold no other message
+export function findBranchPosition(element: Element, selectors: string[], otherMessages: Element[]): BranchPosition | null {
+  let scope: Element | null = element;
+  for (let depth = 0; scope && depth <= MAX_ANCESTOR_DEPTH; depth++) {
+    for (const candidate of findAllElements(selectors, scope)) {
+      const position = parseBranchPosition(candidate.textContent || '');
+      if (position) return position;
+    }
+    const parent: Element | null = scope.parentElement;
+    if (!parent || otherMessages.some(other => other !== element && parent.contains(other))) break;
+    scope = parent;
+  }
+  return null;
+}
@@ -0,0 +1,168 @@
+// Model catalog loading, validation and lookup
+import bundledCatalog from '../catalog/model-catalog.json';
+import { ModelCatalog, CatalogModel, CatalogStatus } from '../types';
+import { STORAGE_KEYS, CATALOG_SCHEMA_VERSION } from './constants';
+
+export const BUNDLED_CATALOG = bundledCatalog as unknown as ModelCatalog;
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+// Validate untrusted catalog JSON; returns a list of problems (empty when valid)
+export function validateCatalog(data: unknown): string[] {
+  const errors: string[] = [];
+  if (!data || typeof data !== 'object') {
+    return ['Catalog must be a JSON object'];
+  }
+
+  const catalog = data as { [key: string]: unknown };
+  if (catalog.schemaVersion !== CATALOG_SCHEMA_VERSION) {
+    errors.push(`Unsupported schemaVersion ${String(catalog.schemaVersion)} (expected ${CATALOG_SCHEMA_VERSION})`);
+  }
+  if (!isPositiveInteger(catalog.version)) {
+    errors.push('version must be a positive integer');
+  }
+  if (typeof catalog.updatedAt !== 'string') {
+    errors.push('updatedAt must be a string');
+  }
+  if (!Array.isArray(catalog.models) || catalog.models.length === 0) {
+    errors.push('models must be a non-empty array');
+    return errors;
+  }
+
+  const seen = new Set<string>();
+  catalog.models.forEach((entry: any, index: number) => {
+    const where = `models[${index}]`;
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    if (typeof entry.provider !== 'string' || !entry.provider) {
+      errors.push(`${where}.provider must be a non-empty string`);
+    }
+    if (typeof entry.id !== 'string' || !entry.id) {
+      errors.push(`${where}.id must be a non-empty string`);
+    }
+    if (!Array.isArray(entry.aliases) || entry.aliases.some((a: unknown) => typeof a !== 'string' || !a)) {
+      errors.push(`${where}.aliases must be an array of non-empty strings`);
+    }
+    if (!entry.limits || typeof entry.limits !== 'object' || Object.keys(entry.limits).length === 0) {
+      errors.push(`${where}.limits must map at least one plan to a token count`);
+    } else {
+      for (const [plan, limit] of Object.entries(entry.limits)) {
+        if (!isPositiveInteger(limit)) {
+          errors.push(`${where}.limits.${plan} must be a positive integer`);
+        }
+      }
+    }
+    if (typeof entry.encoding !== 'string' || !entry.encoding) {
+      errors.push(`${where}.encoding must be a non-empty string`);
+    }
+
+    const key = `${entry.provider}/${entry.id}`;
+    if (seen.has(key)) {
+      errors.push(`${where} duplicates ${key}`);
+    }
+    seen.add(key);
+  });
+
+  return errors;
+}
+
+// Prefer a stored catalog when it's valid and not older than the bundled copy
+export function selectCatalog(stored: unknown): ModelCatalog {
+  if (stored && validateCatalog(stored).length === 0) {
+    const catalog = stored as ModelCatalog;
+    if (catalog.version >= BUNDLED_CATALOG.version) {
+      return catalog;
+    }
+  }
+  return BUNDLED_CATALOG;
+}
+
+export async function getCatalog(): Promise<ModelCatalog> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.MODEL_CATALOG);
+    return selectCatalog(result[STORAGE_KEYS.MODEL_CATALOG]);
+  } catch (error) {
+    console.error('Failed to read model catalog, using bundled copy:', error);
+    return BUNDLED_CATALOG;
+  }
+}
+
+// Validate and store a catalog; invalid catalogs are rejected so trackers keep the previous/bundled copy
+export async function storeCatalog(data: unknown, source: string): Promise<CatalogStatus> {
+  const errors = validateCatalog(data);
+  const status: CatalogStatus = { source, loadedAt: Date.now() };
+
+  if (errors.length > 0) {
+    status.errors = errors;
+  } else {
+    status.version = (data as ModelCatalog).version;
+    await chrome.storage.local.set({ [STORAGE_KEYS.MODEL_CATALOG]: data });
+  }
+
+  await chrome.storage.local.set({ [STORAGE_KEYS.CATALOG_STATUS]: status });
+  return status;
+}
+
+// Drop any downloaded catalog and go back to the bundled copy
+export async function resetCatalog(): Promise<void> {
+  await chrome.storage.local.remove([STORAGE_KEYS.MODEL_CATALOG, STORAGE_KEYS.CATALOG_STATUS]);
+}
+
+export async function getCatalogStatus(): Promise<CatalogStatus | null> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.CATALOG_STATUS);
+  return result[STORAGE_KEYS.CATALOG_STATUS] || null;
+}
+
+export function onCatalogChanged(callback: (catalog: ModelCatalog) => void) {
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && changes[STORAGE_KEYS.MODEL_CATALOG]) {
+      callback(selectCatalog(changes[STORAGE_KEYS.MODEL_CATALOG].newValue));
+    }
+  });
+}
+
+export function getProviderModels(catalog: ModelCatalog, provider: string): CatalogModel[] {
+  return catalog.models.filter(model => model.provider === provider);
+}
+
+// Context limits for a provider's plan, keyed by model id
+export function getCatalogLimits(catalog: ModelCatalog, provider: string, plan: string): { [model: string]: number } {
+  const limits: { [model: string]: number } = {};
+  for (const model of getProviderModels(catalog, provider)) {
+    if (model.limits[plan] !== undefined) {
+      limits[model.id] = model.limits[plan];
+    }
+  }
+  return limits;
+}
+
+// Find the model whose longest alias appears in the text
+function matchAliases(models: CatalogModel[], text: string): string | null {
+  let best: { id: string; length: number } | null = null;
+  for (const model of models) {
+    for (const alias of [model.id, ...model.aliases]) {
+      if (text.includes(alias.toLowerCase()) && (!best || alias.length > best.length)) {
+        best = { id: model.id, length: alias.length };
+      }
+    }
+  }
+  return best ? best.id : null;
+}
+
+// Match model selector text to a catalog model, preferring models offered on the plan
+export function matchCatalogModel(
+  catalog: ModelCatalog,
+  provider: string,
+  modelText: string,
+  plan: string
+): string | null {
+  if (!modelText) return null;
+  const text = modelText.toLowerCase();
+  const models = getProviderModels(catalog, provider);
+  const planModels = models.filter(model => model.limits[plan] !== undefined);
+  return matchAliases(planModels, text) || matchAliases(models, text);
+}
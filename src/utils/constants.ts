@@ -1,44 +1,126 @@
+import { OverheadFeature, OverheadProfile } from '../types';
+
 export const BUFFER_PERCENTAGE = 0.1; // 10% safety buffer
 
-// Claude models - all paid plans have 200k context
-export const CLAUDE_MODELS: { [key: string]: number | "variable" } = {
-  // Current Claude models
-  'claude-sonnet-4': 200000,
-  'claude-opus-4.1': 200000,
-  'claude-opus-4': 200000,
-  'claude-3.7-sonnet': 200000,
-  // Legacy but still shows up
-  'claude-3.5-sonnet': 200000,
-  'claude-3.5-haiku': 200000,
-  'claude-opus-3': 200000,
-};
-
-// ChatGPT Free plan models
-export const GPT_MODELS_FREE: { [key: string]: number } = {
-  'gpt-5-fast': 16000
-};
-
-// ChatGPT Plus plan models
-export const GPT_MODELS_PLUS: { [key: string]: number } = {
-  'gpt-5-fast': 32000,
-  'gpt-5-thinking': 196000,
-  'o3': 200000,
-  'o4-mini': 200000,
-  'gpt-4o': 128000,
-  'gpt-4.1': 32000,
-};
-
-// ChatGPT Pro plan models
-export const GPT_MODELS_PRO: { [key: string]: number } = {
-  'gpt-5-fast': 128000,
-  'gpt-5-thinking': 196000,
-  'gpt-5-pro': 196000,
-  'o3': 200000,
-  'o4-mini': 200000,
-  'gpt-4o': 128000,
-  'gpt-4.1': 128000,
+// chrome.storage keys
+export const STORAGE_KEYS = {
+  CUSTOM_SITES: 'customSites',
+  SETTINGS: 'settings',
+  // Catalogs can exceed the sync quota, so they live in storage.local
+  MODEL_CATALOG: 'modelCatalog',
+  CATALOG_STATUS: 'catalogStatus',
+  PROJECT_BASELINES: 'projectBaselines',
+  // Handoff text waiting to be pasted into a freshly opened chat
+  PENDING_HANDOFF: 'pendingHandoff',
+};
+
+// Model catalog schema versions this build understands
+export const CATALOG_SCHEMA_VERSION = 1;
+
+// Context window assumed for self-hosted models with no configured size
+export const LOCAL_DEFAULT_MAX_TOKENS = 8192;
+
+// Attachment estimates used when the page doesn't expose file contents
+export const ATTACHMENT_ESTIMATES = {
+  BYTES_PER_TOKEN: 4,
+  TOKENS_PER_LINE: 10,
+  DEFAULT_TEXT_FILE: 1000,
+  DEFAULT_ARTIFACT: 800,
+  DEFAULT_PDF_PAGES: 5,
+  BYTES_PER_PDF_PAGE: 60000,
+  PDF_TOKENS_PER_PAGE: 800,
+  // Used when image dimensions aren't available
+  DEFAULT_IMAGE_SIZE: 1024,
+};
+
+// Reasoning and tool-use estimates for content collapsed in the page
+export const TOOL_ESTIMATES = {
+  // Reasoning throughput used to turn "Thought for 12s" into tokens
+  REASONING_TOKENS_PER_SECOND: 40,
+  DEFAULT_REASONING: 1000,
+  DEFAULT_TOOL_OUTPUT: 500,
+  SEARCH_RESULT_TOKENS: 400,
+  // Blocks with less visible text than this are treated as collapsed
+  COLLAPSED_TEXT_LENGTH: 80,
+};
+
+// Hidden-overhead features, in display order
+export const OVERHEAD_FEATURES: { id: OverheadFeature; label: string }[] = [
+  { id: 'memory', label: 'Memory' },
+  { id: 'customInstructions', label: 'Custom instructions' },
+  { id: 'projectKnowledge', label: 'Project knowledge' },
+  { id: 'tools', label: 'Tools & connectors' },
+  { id: 'styles', label: 'Styles' },
+];
+
+// Estimated hidden tokens per provider; all user-tunable from the options page
+export const OVERHEAD_DEFAULTS: { [provider: string]: OverheadProfile } = {
+  claude: {
+    systemPrompt: 4000,
+    models: {},
+    perTurn: 5,
+    features: { memory: 1000, customInstructions: 300, projectKnowledge: 5000, tools: 8000, styles: 400 },
+    // Artifacts and analysis tool instructions ship by default
+    enabledByDefault: ['tools'],
+  },
+  chatgpt: {
+    systemPrompt: 1500,
+    models: { 'gpt-5-thinking': 2000, 'gpt-5-pro': 2000 },
+    perTurn: 4,
+    features: { memory: 1500, customInstructions: 300, projectKnowledge: 5000, tools: 1500, styles: 0 },
+    enabledByDefault: ['memory', 'tools'],
+  },
+  gemini: {
+    systemPrompt: 1000,
+    models: {},
+    perTurn: 4,
+    features: { memory: 500, customInstructions: 1000, projectKnowledge: 0, tools: 1500, styles: 0 },
+    enabledByDefault: ['tools'],
+  },
+};
+
+// Used for self-hosted UIs and anything without a profile
+export const EMPTY_OVERHEAD: OverheadProfile = {
+  systemPrompt: 0,
+  models: {},
+  perTurn: 4,
+  features: { memory: 0, customInstructions: 0, projectKnowledge: 0, tools: 0, styles: 0 },
+  enabledByDefault: [],
 };
 
+// Tokens the pre-send guard keeps free for the reply unless set per model
+export const DEFAULT_REPLY_RESERVE = 4000;
+
+// Default size of a "continue in new chat" handoff block
+export const DEFAULT_HANDOFF_BUDGET = 4000;
+
+// Recent exchanges averaged for the turns-remaining forecast
+export const FORECAST_WINDOW = 5;
+
+export const PROVIDER_LABELS: { [provider: string]: string } = {
+  claude: 'Claude',
+  chatgpt: 'ChatGPT',
+  gemini: 'Gemini',
+  'open-webui': 'Open WebUI',
+  librechat: 'LibreChat',
+};
+
+// Plans users can force from the options page
+export const PROVIDER_PLANS: { [provider: string]: { id: string; label: string }[] } = {
+  claude: [
+    { id: 'free', label: 'Free' },
+    { id: 'pro', label: 'Pro' },
+    { id: 'max', label: 'Max' },
+    { id: 'enterprise', label: 'Enterprise' },
+  ],
+  chatgpt: [
+    { id: 'free', label: 'Free' },
+    { id: 'plus', label: 'Plus' },
+    { id: 'pro', label: 'Pro' },
+    { id: 'team', label: 'Team' },
+    { id: 'enterprise', label: 'Enterprise' },
+  ],
+};
 
 export const COLOR_THRESHOLDS = {
   GREEN: 0.7,   // 0-70%
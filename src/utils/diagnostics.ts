@@ -0,0 +1,68 @@
+// Selector health checks for the diagnostics overlay
+import { DiagnosticReport, ProviderSelectors, SelectorGroupHealth, SelectorProbe } from '../types';
+import { PROVIDER_LABELS } from './constants';
+
+// Selector groups that decide whether anything is counted at all
+export const DIAGNOSTIC_GROUPS: (keyof ProviderSelectors)[] = [
+  'chatContainer',
+  'userMessages',
+  'assistantMessages',
+  'inputField',
+  'modelSelector',
+  'planIndicators',
+];
+
+// Try every fallback on its own, so a report shows which ones still work
+export function probeGroup(group: string, selectors: string[] | undefined): { health: SelectorGroupHealth; nodes: Element[] } {
+  const nodes = new Set<Element>();
+  const probes: SelectorProbe[] = (selectors || []).map(selector => {
+    try {
+      const matches = document.querySelectorAll(selector);
+      matches.forEach(node => nodes.add(node));
+      return { selector, count: matches.length };
+    } catch (e) {
+      return { selector, count: 0, invalid: true };
+    }
+  });
+
+  const matched = probes.find(probe => probe.count > 0);
+  return {
+    health: {
+      group,
+      matched: matched ? matched.selector : null,
+      count: nodes.size,
+      configured: probes.length > 0,
+      probes,
+    },
+    nodes: Array.from(nodes),
+  };
+}
+
+function groupStatus(health: SelectorGroupHealth): string {
+  if (!health.configured) return 'not configured';
+  if (!health.matched) return 'NO MATCH';
+  return `${health.count} node${health.count === 1 ? '' : 's'}`;
+}
+
+// Plain-text report for pasting into a bug
+export function formatDiagnosticReport(report: DiagnosticReport): string {
+  const lines = [
+    `AI Chat Context Window ${report.version} - selector diagnostics`,
+    `Site: ${PROVIDER_LABELS[report.provider] || report.provider} (${report.url})`,
+    `Browser: ${report.userAgent}`,
+    `Time: ${new Date(report.generatedAt).toISOString()}`,
+    '',
+    `Model: ${report.model.detected ? report.model.id : `not detected (using ${report.model.id})`}; selector label "${report.model.label}"`,
+    `Plan: ${report.plan.id} (${report.plan.source === 'override' ? 'forced in options' : 'detected from the page'})`,
+    `Indicator: ${report.tracker.isLoading ? 'loading' : `${report.tracker.totalTokens.toLocaleString()} / ${report.tracker.maxTokens.toLocaleString()} tokens`}`,
+    '',
+  ];
+
+  for (const health of report.groups) {
+    lines.push(`${health.group}: ${groupStatus(health)}${health.matched ? ` via ${health.matched}` : ''}`);
+    for (const probe of health.probes) {
+      lines.push(`  ${probe.invalid ? 'invalid' : String(probe.count).padStart(7)}  ${probe.selector}`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,130 @@
+// DOM helpers shared by all provider trackers
+import { DomMessage, MessageNodes, ProviderAdapter } from '../types';
+
+// Find the first element matching any of the fallback selectors
+export function findElement(selectors: string | string[], root: ParentNode = document): Element | null {
+  const selectorArray = Array.isArray(selectors) ? selectors : [selectors];
+
+  for (const selector of selectorArray) {
+    try {
+      const element = root.querySelector(selector);
+      if (element) return element;
+    } catch (e) {
+      // Skip invalid selectors (like CSS4 :has() in older browsers)
+      continue;
+    }
+  }
+  return null;
+}
+
+// Find ALL elements matching any of the fallback selectors
+export function findAllElements(selectors: string | string[], root: ParentNode = document): Element[] {
+  const selectorArray = Array.isArray(selectors) ? selectors : [selectors];
+  const allElements: Element[] = [];
+
+  for (const selector of selectorArray) {
+    try {
+      const elements = root.querySelectorAll(selector);
+      allElements.push(...Array.from(elements));
+    } catch (e) {
+      // Skip invalid selectors (like CSS4 :has() in older browsers)
+      continue;
+    }
+  }
+
+  // Remove duplicates by using Set with element references
+  return Array.from(new Set(allElements));
+}
+
+// Sort elements by their position in the document
+export function sortByDocumentOrder<T extends Element>(elements: T[]): T[] {
+  return [...elements].sort((a, b) => {
+    if (a === b) return 0;
+    return a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+  });
+}
+
+// Drop elements nested inside another element of the list
+export function keepOutermost<T extends Element>(elements: T[]): T[] {
+  return elements.filter(el => !elements.some(other => other !== el && other.contains(el)));
+}
+
+// Copy of the element without descendants matching the selectors (for text extraction)
+export function withoutDescendants(element: Element, selectors: string[]): Element {
+  if (findAllElements(selectors, element).length === 0) return element;
+  const clone = element.cloneNode(true) as Element;
+  findAllElements(selectors, clone).forEach(el => el.remove());
+  return clone;
+}
+
+// Message elements by role; fallback selectors can match a message and its wrapper, so keep each once
+export function findMessageNodes(adapter: ProviderAdapter): MessageNodes {
+  const { selectors } = adapter;
+  const found: MessageNodes = {
+    user: keepOutermost(findAllElements(selectors.userMessages)),
+    assistant: keepOutermost(findAllElements(selectors.assistantMessages)),
+  };
+  return adapter.fallbackMessages ? adapter.fallbackMessages(found) : found;
+}
+
+// Text counted for a message; reasoning and tool blocks are counted in their own bucket
+export function messageText(adapter: ProviderAdapter, element: Element, role: 'user' | 'assistant'): string {
+  const { reasoning = [], toolOutputs = [] } = adapter.selectors;
+  const bucketSelectors = [...reasoning, ...toolOutputs];
+  const source = role === 'assistant' && bucketSelectors.length > 0
+    ? withoutDescendants(element, bucketSelectors)
+    : element;
+  return adapter.messageText ? adapter.messageText(source, role) : source.textContent || '';
+}
+
+// All messages in conversation order; `textOf` lets callers reuse text they already read
+export function readMessages(
+  adapter: ProviderAdapter,
+  textOf: (element: Element, role: 'user' | 'assistant') => string = (element, role) => messageText(adapter, element, role)
+): DomMessage[] {
+  const nodes = findMessageNodes(adapter);
+  const roles = new Map<Element, 'user' | 'assistant'>();
+  nodes.user.forEach(el => roles.set(el, 'user'));
+  nodes.assistant.forEach(el => roles.set(el, 'assistant'));
+
+  return sortByDocumentOrder(Array.from(roles.keys())).map(element => {
+    const role = roles.get(element)!;
+    return { role, element, text: textOf(element, role) };
+  });
+}
+
+// The composer and its current draft
+export function readInput(adapter: ProviderAdapter): { element: Element; text: string } | null {
+  const inputField = findElement(adapter.selectors.inputField);
+  if (!inputField) return null;
+  const text = adapter.inputText
+    ? adapter.inputText(inputField)
+    : 'value' in inputField
+      ? (inputField as HTMLTextAreaElement).value
+      : inputField.textContent || '';
+  return { element: inputField, text };
+}
+
+// Replace the text of a composer so the page's own editor state picks it up
+export function setInputText(element: Element, text: string) {
+  (element as HTMLElement).focus();
+  if (element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement) {
+    // React tracks the value setter, so go through the prototype's
+    const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(element), 'value')?.set;
+    setter?.call(element, text);
+    element.dispatchEvent(new Event('input', { bubbles: true }));
+    return;
+  }
+
+  // Rich editors (ProseMirror, Quill) apply edits made through editing commands
+  const range = document.createRange();
+  range.selectNodeContents(element);
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+  if (text) {
+    document.execCommand('insertText', false, text);
+  } else {
+    document.execCommand('delete');
+  }
+}
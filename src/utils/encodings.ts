@@ -0,0 +1,22 @@
+// Tokenizer encodings that models can name in the catalog
+import { EncodingId } from '../types';
+
+// BPE vocabularies shipped in dist/encodings and loaded by the background on first use
+export type BaseEncoding = 'o200k_base' | 'cl100k_base' | 'claude';
+
+export const ENCODINGS: { [id in EncodingId]: { label: string; base: BaseEncoding; approximate: boolean } } = {
+  o200k_base: { label: 'o200k_base', base: 'o200k_base', approximate: false },
+  cl100k_base: { label: 'cl100k_base', base: 'cl100k_base', approximate: false },
+  claude: { label: 'Claude', base: 'claude', approximate: false },
+  // SentencePiece vocabularies that aren't published; counted with the closest public BPE
+  'gemini-approx': { label: 'Gemini (≈ o200k_base)', base: 'o200k_base', approximate: true },
+  // Llama 3's vocabulary extends cl100k_base
+  'llama-approx': { label: 'Llama (≈ cl100k_base)', base: 'cl100k_base', approximate: true },
+};
+
+export const DEFAULT_ENCODING: EncodingId = 'o200k_base';
+
+// Catalogs may name encodings this build doesn't know yet
+export function resolveEncoding(id: string | undefined, fallback: EncodingId = DEFAULT_ENCODING): EncodingId {
+  return id && id in ENCODINGS ? id as EncodingId : fallback;
+}
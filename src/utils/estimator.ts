@@ -0,0 +1,115 @@
+// Offline token estimate used when the tokenizer can't be reached: text is split by script and
+// character class, and each class has its own tokens-per-unit rate for the encoding's vocabulary
+import { EncodingId } from '../types';
+import { BaseEncoding, ENCODINGS, resolveEncoding } from './encodings';
+
+export type ScriptClass =
+  | 'emoji' // grapheme clusters, including ZWJ sequences and skin tones...
+  | 'emojiParts' // ...and the code points after the first in each
+  | 'cjk' // Han, Hiragana and Katakana characters
+  | 'hangul'
+  | 'blob' // base64-like runs of 32+ characters
+  | 'hex' // hex runs of 32+ characters, and groups of 4+ with digits and letters
+  | 'words' // Latin-script words...
+  | 'wordChars' // ...and their characters
+  | 'accented' // non-ASCII Latin letters, on top of wordChars
+  | 'cyrillic'
+  | 'greek'
+  | 'abjad' // Arabic and Hebrew
+  | 'letters' // any other script (Devanagari, Thai, ...)
+  | 'digits'
+  | 'lines' // whitespace runs containing a line break
+  | 'indent' // runs of 2+ spaces or tabs
+  | 'symbols'; // punctuation and everything else
+
+export type ScriptProfile = { [key in ScriptClass]: number };
+
+// Least-squares fit against the real encoders on the samples in test/fixtures/estimator/fit.
+// On the held-out samples in test/fixtures/estimator/held-out, which test/utils/estimator.test.ts
+// checks, the worst error per sample is within 30% for prose, code, CJK, Hangul, emoji, base64
+// and hex, and 40% for mixed text and other scripts; a flat 4 characters per token is off by up to 85%.
+const RATES: { [base in BaseEncoding]: ScriptProfile } = {
+  o200k_base: {
+    emoji: 1.76, emojiParts: 1.57, cjk: 0.8, hangul: 0.77, blob: 0.62, hex: 0.64, words: 0.22, wordChars: 0.18,
+    accented: 1.77, cyrillic: 0.3, greek: 0.45, abjad: 0.39, letters: 0.38, digits: 0.82, lines: 1.64, indent: 0.94, symbols: 0.52,
+  },
+  cl100k_base: {
+    emoji: 2.61, emojiParts: 2.41, cjk: 1.16, hangul: 1.22, blob: 0.65, hex: 0.64, words: 0.37, wordChars: 0.16,
+    accented: 3.38, cyrillic: 0.57, greek: 1.05, abjad: 0.96, letters: 1.08, digits: 0.82, lines: 1.53, indent: 1.03, symbols: 0.49,
+  },
+  claude: {
+    emoji: 2.58, emojiParts: 2.28, cjk: 1.1, hangul: 1.37, blob: 0.63, hex: 0.66, words: 0.51, wordChars: 0.13,
+    accented: 4.12, cyrillic: 0.64, greek: 1.36, abjad: 1.08, letters: 1.51, digits: 0.35, lines: 1.87, indent: 0.58, symbols: 0.65,
+  },
+};
+
+const SEGMENT_PATTERN = /(\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic})*)|([A-Za-z0-9+/_-]{32,}={0,2})|((?<![\p{L}\p{N}])(?=[\dA-Fa-f]*[A-Fa-f])(?=[\dA-Fa-f]*\d)[\dA-Fa-f]{4,}(?![\p{L}\p{N}]))|([\p{L}\p{M}]+)|(\p{N}+)|(\s+)|([^])/gu;
+const SCRIPT_PATTERN = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u30FC]+)|(\p{Script=Hangul}+)|(\p{Script=Latin}[\p{Script=Latin}\p{M}]*)|(\p{Script=Cyrillic}+)|(\p{Script=Greek}+)|([\p{Script=Arabic}\p{Script=Hebrew}]+)|([^])/gu;
+
+function emptyProfile(): ScriptProfile {
+  return {
+    emoji: 0, emojiParts: 0, cjk: 0, hangul: 0, blob: 0, hex: 0, words: 0, wordChars: 0,
+    accented: 0, cyrillic: 0, greek: 0, abjad: 0, letters: 0, digits: 0, lines: 0, indent: 0, symbols: 0,
+  };
+}
+
+function length(text: string): number {
+  return Array.from(text).length;
+}
+
+function addLetters(profile: ScriptProfile, run: string) {
+  for (const [match, cjk, hangul, latin, cyrillic, greek, abjad] of run.matchAll(SCRIPT_PATTERN)) {
+    if (cjk) profile.cjk += length(cjk);
+    else if (hangul) profile.hangul += length(hangul);
+    else if (latin) {
+      profile.words++;
+      profile.wordChars += length(latin);
+      profile.accented += length(latin.replace(/[A-Za-z]/g, ''));
+    }
+    else if (cyrillic) profile.cyrillic += length(cyrillic);
+    else if (greek) profile.greek += length(greek);
+    else if (abjad) profile.abjad += length(abjad);
+    else profile.letters += length(match);
+  }
+}
+
+// Counts per character class
+export function scriptProfile(text: string): ScriptProfile {
+  const profile = emptyProfile();
+  for (const [match, emoji, blob, hex, letters, digits, space] of text.matchAll(SEGMENT_PATTERN)) {
+    if (emoji) {
+      profile.emoji++;
+      profile.emojiParts += length(emoji) - 1;
+    }
+    else if (hex) profile.hex += hex.length;
+    else if (blob && /\d/.test(blob)) {
+      if (/^[0-9a-f]+$/i.test(blob)) profile.hex += blob.length;
+      else profile.blob += blob.length;
+    }
+    // Long identifiers without digits are ordinary words joined by symbols
+    else if (blob) {
+      for (const [part, word] of blob.matchAll(/([\p{L}\p{M}]+)|(\p{N}+)|([^])/gu)) {
+        if (word) addLetters(profile, word);
+        else if (/\d/.test(part)) profile.digits += part.length;
+        else profile.symbols++;
+      }
+    }
+    else if (letters) addLetters(profile, letters);
+    else if (digits) profile.digits += length(digits);
+    else if (space) {
+      if (space.includes('\n')) profile.lines++;
+      else if (space.length > 1) profile.indent++;
+    }
+    else profile.symbols += length(match);
+  }
+  return profile;
+}
+
+export function estimateTokens(text: string, encoding: EncodingId): number {
+  if (!text) return 0;
+  const rates = RATES[ENCODINGS[resolveEncoding(encoding)].base];
+  const profile = scriptProfile(text);
+  const tokens = (Object.keys(profile) as ScriptClass[])
+    .reduce((sum, key) => sum + profile[key] * rates[key], 0);
+  return Math.max(1, Math.round(tokens));
+}
@@ -0,0 +1,103 @@
+// Transcript export as Markdown, JSON or CSV with per-message and running token counts
+import { ExportFormat, TranscriptExport } from '../types';
+import { PROVIDER_LABELS } from './constants';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'markdown', label: 'Markdown', extension: 'md', mime: 'text/markdown' },
+  { id: 'json', label: 'JSON', extension: 'json', mime: 'application/json' },
+  { id: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv' },
+];
+
+interface ExportRow {
+  index: number;
+  role: string;
+  timestamp: string;
+  tokens: number;
+  cumulative: number;
+  text: string;
+}
+
+function rows(data: TranscriptExport): ExportRow[] {
+  let cumulative = 0;
+  return data.messages.map((message, i) => {
+    cumulative += message.tokens;
+    return {
+      index: i + 1,
+      role: message.role,
+      timestamp: message.timestamp ? new Date(message.timestamp).toISOString() : '',
+      tokens: message.tokens,
+      cumulative,
+      text: message.content,
+    };
+  });
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toMarkdown(data: TranscriptExport): string {
+  const header = [
+    `# ${data.title || 'Conversation'}`,
+    '',
+    `- Provider: ${PROVIDER_LABELS[data.provider] || data.provider}`,
+    `- Model: ${data.model}`,
+    `- Context: ${data.totalTokens.toLocaleString()} / ${data.maxTokens.toLocaleString()} tokens`,
+    `- URL: ${data.url}`,
+    `- Exported: ${new Date(data.exportedAt).toISOString()}`,
+  ];
+  const messages = rows(data).map(row => {
+    const when = row.timestamp ? ` · ${row.timestamp}` : '';
+    const title = `## #${row.index} ${row.role === 'user' ? 'User' : 'Assistant'}`;
+    return `${title}\n\n_${row.tokens.toLocaleString()} tokens · ${row.cumulative.toLocaleString()} cumulative${when}_\n\n${row.text}`;
+  });
+  return [header.join('\n'), ...messages].join('\n\n') + '\n';
+}
+
+function toJSON(data: TranscriptExport): string {
+  return JSON.stringify({
+    provider: data.provider,
+    title: data.title,
+    url: data.url,
+    model: data.model,
+    maxTokens: data.maxTokens,
+    totalTokens: data.totalTokens,
+    exportedAt: new Date(data.exportedAt).toISOString(),
+    messages: rows(data),
+  }, null, 2);
+}
+
+// One row per message; conversation details repeat so rows can be pooled across exports
+function toCSV(data: TranscriptExport): string {
+  const columns = ['index', 'role', 'timestamp', 'tokens', 'cumulative', 'model', 'max_tokens', 'text'];
+  const lines = rows(data).map(row => [
+    row.index, row.role, row.timestamp, row.tokens, row.cumulative, data.model, data.maxTokens, row.text,
+  ].map(csvField).join(','));
+  return [columns.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+export function serializeTranscript(data: TranscriptExport, format: ExportFormat): string {
+  if (format === 'json') return toJSON(data);
+  if (format === 'csv') return toCSV(data);
+  return toMarkdown(data);
+}
+
+function fileName(data: TranscriptExport, extension: string): string {
+  const slug = data.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  const date = new Date(data.exportedAt).toISOString().slice(0, 10);
+  return `${slug || data.provider}-${date}.${extension}`;
+}
+
+// Saved through a temporary link, so nothing leaves the browser
+export function downloadTranscript(data: TranscriptExport, format: ExportFormat) {
+  const { extension, mime } = EXPORT_FORMATS.find(entry => entry.id === format)!;
+  const url = URL.createObjectURL(new Blob([serializeTranscript(data, format)], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName(data, extension);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
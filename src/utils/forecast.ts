@@ -0,0 +1,43 @@
+// Turns-remaining forecast from the sizes of recent exchanges
+import { TurnForecast, UsageTurn } from '../types';
+import { FORECAST_WINDOW } from './constants';
+
+interface Exchange {
+  prompt: number;
+  reply: number;
+}
+
+// A user turn opens an exchange; the assistant turns after it are its reply
+function groupExchanges(turns: UsageTurn[]): Exchange[] {
+  const exchanges: Exchange[] = [];
+  turns.forEach(turn => {
+    const last = exchanges[exchanges.length - 1];
+    if (turn.role === 'user' || !last) {
+      exchanges.push({ prompt: 0, reply: 0 });
+    }
+    const current = exchanges[exchanges.length - 1];
+    if (turn.role === 'user') current.prompt += turn.tokens;
+    else current.reply += turn.tokens;
+  });
+  return exchanges;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+}
+
+// Null until there's at least one exchange to learn from
+export function forecastTurns(turns: UsageTurn[], remainingTokens: number, draftTokens: number): TurnForecast | null {
+  const recent = groupExchanges(turns).slice(-FORECAST_WINDOW);
+  const averageExchangeTokens = Math.round(average(recent.map(exchange => exchange.prompt + exchange.reply)));
+  if (averageExchangeTokens <= 0) return null;
+
+  // Exchanges still waiting on a reply don't say anything about reply size
+  const expectedReplyTokens = Math.round(average(recent.filter(exchange => exchange.reply > 0).map(exchange => exchange.reply)));
+
+  // A typed draft is already counted; its reply still has to fit before the next exchange
+  const available = draftTokens > 0 ? remainingTokens - expectedReplyTokens : remainingTokens;
+  const turnsRemaining = Math.max(0, Math.floor(available / averageExchangeTokens));
+
+  return { averageExchangeTokens, expectedReplyTokens, draftTokens, turnsRemaining };
+}
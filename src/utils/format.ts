@@ -0,0 +1,21 @@
+// Number formatting helpers for token counts
+
+// Compact token count, e.g. 412345 -> "412K", 1000000 -> "1M", 2500000 -> "2.5M"
+export function formatCompactTokens(count: number): string {
+  // 999,500 and up would round to "1000K"
+  if (Math.round(count / 1000) >= 1000) {
+    return `${parseFloat((count / 1000000).toFixed(1))}M`;
+  }
+  if (count >= 10000) {
+    return `${Math.round(count / 1000)}K`;
+  }
+  if (count >= 1000) {
+    return `${parseFloat((count / 1000).toFixed(1))}K`;
+  }
+  return count.toString();
+}
+
+// Full count for small windows, compact once the window reaches a million tokens
+export function formatTokenCount(count: number, maxTokens: number): string {
+  return maxTokens >= 1000000 ? formatCompactTokens(count) : count.toLocaleString();
+}
@@ -0,0 +1,189 @@
+// Extractive handoff block for continuing a conversation in a new chat
+import { ChatMessage } from '../types';
+import { STORAGE_KEYS } from './constants';
+
+// Recent turns copied verbatim
+const HANDOFF_TURNS = 4;
+// Caps per section before fitting to the budget
+const MAX_DECISIONS = 8;
+const MAX_QUESTIONS = 5;
+const MAX_CODE_BLOCKS = 3;
+const MAX_CODE_CHARS = 4000;
+// Open questions come from this many trailing messages
+const QUESTION_WINDOW = 4;
+// Budget fitting re-measures the rendered block at most this many times
+const MAX_FIT_PASSES = 3;
+// A new chat that hasn't loaded within this long doesn't get the handoff
+const HANDOFF_MAX_AGE_MS = 2 * 60 * 1000;
+
+// Sentences that record a choice
+const DECISION_PATTERN = /\b(decided|decision|agreed|settled on|going with|go with|we'll use|let's use|switch(?:ed)? to|instead of|conclusion|recommend(?:ed)?)\b/i;
+
+export interface HandoffSections {
+  goal: string;
+  decisions: string[];
+  code: string[];
+  questions: string[];
+  recent: ChatMessage[];
+}
+
+interface PendingHandoff {
+  provider: string;
+  text: string;
+  createdAt: number;
+}
+
+function clip(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars).trimEnd()} […]` : text;
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0 && sentence.length <= 300);
+}
+
+// Code from the DOM's <pre> blocks, or markdown fences in captured text
+function codeBlocks(message: ChatMessage): string[] {
+  if (message.codeBlocks) return message.codeBlocks;
+  return Array.from(message.content.matchAll(/```[^\n]*\n([\s\S]*?)```/g), match => match[1].trimEnd());
+}
+
+// Prose only, so code doesn't turn up as decisions or questions
+function prose(message: ChatMessage): string {
+  return codeBlocks(message).reduce((text, block) => text.replace(block, ''), message.content);
+}
+
+function unique(items: string[]): string[] {
+  return Array.from(new Set(items));
+}
+
+// Everything is taken verbatim from the transcript; later items are more recent
+export function extractHandoff(chat: ChatMessage[]): HandoffSections {
+  const goal = chat.find(message => message.role === 'user');
+
+  const decisions = unique(chat.flatMap(message => sentences(prose(message)).filter(s => DECISION_PATTERN.test(s))))
+    .slice(-MAX_DECISIONS);
+  const code = chat
+    .filter(message => message.role === 'assistant')
+    .flatMap(codeBlocks)
+    .slice(-MAX_CODE_BLOCKS)
+    .map(block => clip(block, MAX_CODE_CHARS));
+  const questions = unique(chat.slice(-QUESTION_WINDOW).flatMap(message => sentences(prose(message)).filter(s => s.endsWith('?'))))
+    .slice(-MAX_QUESTIONS);
+  const recent = chat.slice(-HANDOFF_TURNS).filter(message => message !== goal);
+
+  return { goal: goal ? goal.content : '', decisions, code, questions, recent };
+}
+
+export function renderHandoff(sections: HandoffSections, draft: string = ''): string {
+  const blocks = ['Continuing from an earlier conversation that ran out of context.'];
+  if (sections.goal) {
+    blocks.push(`## Original goal\n${sections.goal}`);
+  }
+  if (sections.decisions.length > 0) {
+    blocks.push(`## Key decisions\n${sections.decisions.map(decision => `- ${decision}`).join('\n')}`);
+  }
+  if (sections.code.length > 0) {
+    blocks.push(`## Latest code\n${sections.code.map(block => `\`\`\`\n${block}\n\`\`\``).join('\n\n')}`);
+  }
+  if (sections.questions.length > 0) {
+    blocks.push(`## Open questions\n${sections.questions.map(question => `- ${question}`).join('\n')}`);
+  }
+  if (sections.recent.length > 0) {
+    const turns = sections.recent.map(message => `**${message.role === 'user' ? 'User' : 'Assistant'}:** ${message.content}`);
+    blocks.push(`## Most recent turns\n${turns.join('\n\n')}`);
+  }
+  if (draft) {
+    blocks.push(`## Next message\n${draft}`);
+  }
+  return blocks.join('\n\n');
+}
+
+// Shorten text to roughly the given share of its tokens
+function clipToTokens(text: string, tokens: number, allowed: number): string {
+  if (tokens <= allowed) return text;
+  return clip(text, Math.max(0, Math.floor(text.length * (allowed / tokens))));
+}
+
+// Greedy fit: the goal and latest turn first, then questions, decisions, code and older turns.
+// The draft is passed through as-is and doesn't count against the budget.
+export async function fitHandoff(
+  chat: ChatMessage[],
+  budget: number,
+  count: (text: string) => Promise<number>,
+  draft: string = ''
+): Promise<{ text: string; tokens: number }> {
+  const full = extractHandoff(chat);
+  const empty: HandoffSections = { goal: '', decisions: [], code: [], questions: [], recent: [] };
+  const emptyTokens = await count(renderHandoff(empty));
+  const draftTokens = draft ? await count(renderHandoff(empty, draft)) - emptyTokens : 0;
+  let allowance = budget;
+  let text = '';
+  let tokens = 0;
+
+  for (let pass = 0; pass < MAX_FIT_PASSES; pass++) {
+    const fitted: HandoffSections = { ...empty, decisions: [], code: [], questions: [] };
+    let remaining = allowance - emptyTokens;
+
+    const take = async (piece: string, mustHave: boolean): Promise<string | null> => {
+      const pieceTokens = await count(piece);
+      if (pieceTokens <= remaining) {
+        remaining -= pieceTokens;
+        return piece;
+      }
+      if (!mustHave || remaining <= 0) return null;
+      const clipped = clipToTokens(piece, pieceTokens, remaining);
+      remaining = 0;
+      return clipped;
+    };
+
+    const latest = full.recent[full.recent.length - 1];
+    const goal = full.goal ? await take(full.goal, true) : null;
+    if (goal) fitted.goal = goal;
+    const latestText = latest ? await take(latest.content, true) : null;
+    // Skip what the goal or the verbatim latest turn already shows
+    const shown = (piece: string) => fitted.goal.includes(piece) || (latestText !== null && latestText.includes(piece));
+
+    for (const question of [...full.questions].reverse()) {
+      if (!shown(question) && await take(question, false)) fitted.questions.unshift(question);
+    }
+    for (const decision of [...full.decisions].reverse()) {
+      if (!shown(decision) && await take(decision, false)) fitted.decisions.unshift(decision);
+    }
+    for (const block of [...full.code].reverse()) {
+      if (!shown(block) && await take(block, false)) fitted.code.unshift(block);
+    }
+    // Older turns are added newest first and stop at the first that doesn't fit, to stay contiguous
+    const older: ChatMessage[] = [];
+    for (const message of full.recent.slice(0, -1).reverse()) {
+      if (!(await take(message.content, false))) break;
+      older.unshift(message);
+    }
+    fitted.recent = latest && latestText ? [...older, { ...latest, content: latestText }] : older;
+
+    text = renderHandoff(fitted, draft);
+    tokens = await count(text);
+    // Joining sections adds a few tokens the per-piece counts missed; shrink and retry if it overflowed
+    const overshoot = tokens - draftTokens - budget;
+    if (overshoot <= 0) break;
+    allowance -= overshoot;
+  }
+  return { text, tokens };
+}
+
+export async function savePendingHandoff(provider: string, text: string): Promise<void> {
+  const pending: PendingHandoff = { provider, text, createdAt: Date.now() };
+  await chrome.storage.local.set({ [STORAGE_KEYS.PENDING_HANDOFF]: pending });
+}
+
+// Returns the handoff for this provider once, then forgets it
+export async function takePendingHandoff(provider: string): Promise<string | null> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.PENDING_HANDOFF);
+  const pending: PendingHandoff | undefined = result[STORAGE_KEYS.PENDING_HANDOFF];
+  if (!pending || pending.provider !== provider) return null;
+
+  await chrome.storage.local.remove(STORAGE_KEYS.PENDING_HANDOFF);
+  return Date.now() - pending.createdAt <= HANDOFF_MAX_AGE_MS ? pending.text : null;
+}
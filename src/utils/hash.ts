@@ -0,0 +1,9 @@
+// Fast non-cryptographic string hash (FNV-1a, 32-bit) for cache keys
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
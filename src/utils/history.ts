@@ -0,0 +1,48 @@
+// Content-script side of the usage history kept by the background script
+import { ConversationUsage, MessageBreakdown, UsageTurn } from '../types';
+
+export function usageKey(provider: string, conversationId: string): string {
+  return `${provider}:${conversationId}`;
+}
+
+export async function saveUsage(usage: ConversationUsage): Promise<void> {
+  try {
+    await chrome.runtime.sendMessage({ type: 'SAVE_USAGE', usage });
+  } catch (error) {
+    console.error('Failed to save usage history:', error);
+  }
+}
+
+export async function loadUsage(key: string): Promise<ConversationUsage | null> {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_USAGE', key });
+    return response?.success ? response.usage : null;
+  } catch (error) {
+    console.error('Failed to load usage history:', error);
+    return null;
+  }
+}
+
+export async function listRecentUsage(limit: number = 50): Promise<ConversationUsage[]> {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'LIST_USAGE', limit });
+    return response?.success ? response.usages : [];
+  } catch (error) {
+    console.error('Failed to list usage history:', error);
+    return [];
+  }
+}
+
+// Chat turns in page order, without project, files, tools or the draft
+export function usageTurns(items: MessageBreakdown[]): UsageTurn[] {
+  return items
+    .filter(item => item.role === 'user' || item.role === 'assistant')
+    .map(item => ({ role: item.role as 'user' | 'assistant', tokens: item.tokens }));
+}
+
+// Running total after each turn, starting from the non-chat baseline
+export function growthSeries(usage: ConversationUsage): number[] {
+  const series = [usage.baseTokens];
+  usage.turns.forEach(turn => series.push(series[series.length - 1] + turn.tokens));
+  return series;
+}
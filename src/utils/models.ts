@@ -0,0 +1,16 @@
+// Model id matching helpers
+import { CustomSite } from '../types';
+
+// Find a model id mentioned in the text (longest id first so "gpt-4o-mini" beats "gpt-4o")
+export function findModelInText(modelText: string, modelIds: string[]): string | null {
+  if (!modelText) return null;
+  const text = modelText.toLowerCase();
+  const sorted = [...modelIds].sort((a, b) => b.length - a.length);
+  return sorted.find(model => text.includes(model.toLowerCase())) || null;
+}
+
+// Match model selector text against the user's configured models
+export function matchConfiguredModel(modelText: string, site: CustomSite): string {
+  const models = Object.keys(site.models);
+  return findModelInText(modelText, models) || models[0] || 'default';
+}
@@ -0,0 +1,58 @@
+// Hidden-overhead model: system prompt, enabled features and per-message formatting
+import { OVERHEAD_DEFAULTS, OVERHEAD_FEATURES, EMPTY_OVERHEAD } from './constants';
+import { OverheadFeature, OverheadItem, OverheadOverride, OverheadProfile } from '../types';
+
+export interface OverheadEstimate {
+  tokens: number;
+  items: OverheadItem[];
+}
+
+// Built-in profile with the user's adjustments applied
+export function resolveOverhead(provider: string, override: OverheadOverride = {}): OverheadProfile {
+  const base = OVERHEAD_DEFAULTS[provider] || EMPTY_OVERHEAD;
+  return {
+    systemPrompt: override.systemPrompt ?? base.systemPrompt,
+    models: { ...base.models, ...(override.models || {}) },
+    perTurn: override.perTurn ?? base.perTurn,
+    features: { ...base.features, ...(override.features || {}) },
+    enabledByDefault: base.enabledByDefault,
+  };
+}
+
+// Forced setting wins, then page detection, then the profile default
+export function resolveEnabledFeatures(
+  profile: OverheadProfile,
+  forced: { [feature in OverheadFeature]?: boolean } = {},
+  detected: { [feature in OverheadFeature]?: boolean } = {}
+): OverheadFeature[] {
+  return OVERHEAD_FEATURES
+    .map(feature => feature.id)
+    .filter(id => forced[id] ?? detected[id] ?? profile.enabledByDefault.includes(id));
+}
+
+export function estimateOverhead(
+  profile: OverheadProfile,
+  model: string,
+  enabled: OverheadFeature[],
+  messageCount: number
+): OverheadEstimate {
+  const items: OverheadItem[] = [
+    { label: 'System prompt', tokens: profile.models[model] ?? profile.systemPrompt },
+  ];
+
+  for (const feature of OVERHEAD_FEATURES) {
+    if (enabled.includes(feature.id) && profile.features[feature.id] > 0) {
+      items.push({ label: feature.label, tokens: profile.features[feature.id] });
+    }
+  }
+
+  if (messageCount > 0 && profile.perTurn > 0) {
+    items.push({ label: `Formatting (${messageCount} messages)`, tokens: messageCount * profile.perTurn });
+  }
+
+  const nonEmpty = items.filter(item => item.tokens > 0);
+  return {
+    tokens: nonEmpty.reduce((total, item) => total + item.tokens, 0),
+    items: nonEmpty,
+  };
+}
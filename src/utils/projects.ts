@@ -0,0 +1,99 @@
+// Project instructions and knowledge baselines, read from project pages and cached per project
+import { findAllElements, keepOutermost } from './dom';
+import { describeAttachmentElement, estimateAttachmentTokens } from './attachments';
+import { ATTACHMENT_ESTIMATES, STORAGE_KEYS } from './constants';
+import { ProjectBaseline, ProjectContext, ProviderAdapter } from '../types';
+
+// Oldest baselines are dropped beyond this many projects
+const MAX_BASELINES = 100;
+
+type BaselineStore = { [key: string]: ProjectBaseline };
+
+function baselineKey(provider: string, projectId: string): string {
+  return `${provider}:${projectId}`;
+}
+
+async function getBaselines(): Promise<BaselineStore> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.PROJECT_BASELINES);
+  return result[STORAGE_KEYS.PROJECT_BASELINES] || {};
+}
+
+export async function getProjectBaseline(provider: string, projectId: string): Promise<ProjectBaseline | null> {
+  const baselines = await getBaselines();
+  return baselines[baselineKey(provider, projectId)] || null;
+}
+
+export async function saveProjectBaseline(baseline: ProjectBaseline): Promise<void> {
+  const baselines = await getBaselines();
+  baselines[baselineKey(baseline.provider, baseline.projectId)] = baseline;
+
+  const keys = Object.keys(baselines);
+  if (keys.length > MAX_BASELINES) {
+    keys
+      .sort((a, b) => baselines[a].updatedAt - baselines[b].updatedAt)
+      .slice(0, keys.length - MAX_BASELINES)
+      .forEach(key => delete baselines[key]);
+  }
+  await chrome.storage.local.set({ [STORAGE_KEYS.PROJECT_BASELINES]: baselines });
+}
+
+// Parse "12% of project capacity used"
+export function parseCapacityPercent(text: string): number | null {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*%\s*of\s+(?:project\s+)?capacity/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+// Measure the project overview page; null while it hasn't rendered anything to measure.
+// Instructions are counted with the caller's counter, so unchanged text isn't re-sent
+export async function measureProjectPage(
+  adapter: ProviderAdapter,
+  context: ProjectContext,
+  count: (text: string) => Promise<number>
+): Promise<ProjectBaseline | null> {
+  const { projectInstructions = [], projectFiles = [], projectCapacity = [] } = adapter.selectors;
+
+  const instructionElements = keepOutermost(findAllElements(projectInstructions));
+  // Editors keep the instructions in a textarea value
+  const instructions = instructionElements
+    .map(el => (el instanceof HTMLTextAreaElement ? el.value : el.textContent || '').trim())
+    .join('\n')
+    .trim();
+  const instructionsTokens = instructions ? await count(instructions) : 0;
+
+  const files = keepOutermost(findAllElements(projectFiles));
+  let filesTokens = 0;
+  for (const file of files) {
+    const info = describeAttachmentElement(file);
+    if (!info) continue;
+    filesTokens += estimateAttachmentTokens(
+      info,
+      adapter.imageTokenFormula || 'openai',
+      adapter.pdfTokensPerPage || ATTACHMENT_ESTIMATES.PDF_TOKENS_PER_PAGE
+    );
+  }
+
+  // The capacity meter is closer to the real knowledge size than per-file guesses
+  const capacityText = findAllElements(projectCapacity).map(el => el.textContent || '').join(' ');
+  const capacityPercent = parseCapacityPercent(capacityText);
+  if (capacityPercent !== null && adapter.projectCapacityTokens) {
+    filesTokens = Math.round((capacityPercent / 100) * adapter.projectCapacityTokens);
+  }
+
+  if (instructionElements.length === 0 && files.length === 0 && capacityPercent === null) {
+    return null;
+  }
+
+  return {
+    provider: adapter.id,
+    projectId: context.id,
+    name: (document.querySelector('h1')?.textContent || '').trim() || context.id,
+    feature: context.feature,
+    instructionsTokens,
+    fileCount: files.length,
+    filesTokens,
+    capacityPercent: capacityPercent ?? undefined,
+    tokens: instructionsTokens + filesTokens,
+    estimated: filesTokens > 0,
+    updatedAt: Date.now(),
+  };
+}
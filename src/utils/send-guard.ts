@@ -0,0 +1,35 @@
+// Pre-send guard limits: per-model overrides on top of the buffer-derived defaults
+import { SendGuardOverride, SendGuardVerdict, UserSettings } from '../types';
+
+export interface SendGuardLimits {
+  threshold: number;
+  replyReserve: number;
+}
+
+// Overrides are keyed by the model id shown in the indicator
+export function resolveSendGuard(settings: UserSettings, model: string): SendGuardLimits {
+  const override: SendGuardOverride = settings.sendGuard.models[model] || {};
+  return {
+    threshold: override.threshold ?? 1 - settings.bufferPercentage,
+    replyReserve: override.replyReserve ?? settings.sendGuard.replyReserve,
+  };
+}
+
+// Null when the draft and its reply fit under the threshold
+export function checkSend(
+  limits: SendGuardLimits,
+  contextTokens: number,
+  draftTokens: number,
+  maxTokens: number
+): SendGuardVerdict | null {
+  const limitTokens = Math.floor(maxTokens * limits.threshold);
+  if (contextTokens + draftTokens + limits.replyReserve <= limitTokens) return null;
+  return {
+    contextTokens,
+    draftTokens,
+    replyReserve: limits.replyReserve,
+    limitTokens,
+    maxTokens,
+    allowedDraftTokens: Math.max(0, limitTokens - contextTokens - limits.replyReserve),
+  };
+}
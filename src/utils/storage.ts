@@ -0,0 +1,60 @@
+// Extension settings persisted in chrome.storage.sync
+import { CustomSite, UserSettings } from '../types';
+import { STORAGE_KEYS, BUFFER_PERCENTAGE, DEFAULT_REPLY_RESERVE, DEFAULT_HANDOFF_BUDGET } from './constants';
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  planOverrides: {},
+  modelLimitOverrides: {},
+  bufferPercentage: BUFFER_PERCENTAGE,
+  catalogUrl: '',
+  overheadOverrides: {},
+  networkCapture: false,
+  sendGuard: { enabled: false, replyReserve: DEFAULT_REPLY_RESERVE, models: {} },
+  handoffBudget: DEFAULT_HANDOFF_BUDGET,
+  selectorDiagnostics: false,
+};
+
+export async function getCustomSites(): Promise<CustomSite[]> {
+  const result = await chrome.storage.sync.get(STORAGE_KEYS.CUSTOM_SITES);
+  return result[STORAGE_KEYS.CUSTOM_SITES] || [];
+}
+
+export async function saveCustomSites(sites: CustomSite[]): Promise<void> {
+  await chrome.storage.sync.set({ [STORAGE_KEYS.CUSTOM_SITES]: sites });
+}
+
+export async function getSettings(): Promise<UserSettings> {
+  const result = await chrome.storage.sync.get(STORAGE_KEYS.SETTINGS);
+  return { ...DEFAULT_SETTINGS, ...(result[STORAGE_KEYS.SETTINGS] || {}) };
+}
+
+export async function saveSettings(settings: UserSettings): Promise<void> {
+  await chrome.storage.sync.set({ [STORAGE_KEYS.SETTINGS]: settings });
+}
+
+// Call back with fresh settings whenever they change in any context
+export function onSettingsChanged(callback: (settings: UserSettings) => void) {
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'sync' && changes[STORAGE_KEYS.SETTINGS]) {
+      callback({ ...DEFAULT_SETTINGS, ...(changes[STORAGE_KEYS.SETTINGS].newValue || {}) });
+    }
+  });
+}
+
+// Host permission pattern covering every page on an origin
+export function originPattern(origin: string): string {
+  return `${origin}/*`;
+}
+
+// Normalize user input like "http://llm.lan:3000/c/123" to "http://llm.lan:3000"
+export function parseOrigin(input: string): string | null {
+  try {
+    const url = new URL(input.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+    return url.origin;
+  } catch (e) {
+    return null;
+  }
+}
@@ -1,32 +1,89 @@
 // Token counting implementation that uses service worker for WASM operations
+import { EncodingId } from '../types';
+import { estimateTokens } from './estimator';
 
-export async function countTokens(
+// A background that was just suspended can drop the first message while it restarts
+const RETRY_DELAY_MS = 250;
+
+async function sendTokenizerMessage(message: any): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await chrome.runtime.sendMessage(message);
+      if (!response) throw new Error('No response from the tokenizer');
+      return response;
+    } catch (error) {
+      if (attempt > 0) throw error;
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+    }
+  }
+}
+
+export interface TokenCount {
+  tokens: number;
+  // False when the tokenizer couldn't be reached and the length approximation was used
+  exact: boolean;
+  error?: string;
+}
+
+export async function measureTokens(
   text: string,
-  provider: 'claude' | 'chatgpt'
-): Promise<number> {
+  encoding: EncodingId
+): Promise<TokenCount> {
   try {
     // Send message to service worker for token counting
-    const response = await chrome.runtime.sendMessage({
+    const response = await sendTokenizerMessage({
       type: 'COUNT_TOKENS',
       text,
-      provider
+      encoding
     });
 
     if (response.success) {
-      return response.count;
+      return { tokens: response.count, exact: true };
     } else {
       throw new Error(response.error);
     }
-  } catch (error) {
+  } catch (error: any) {
     console.error('Token count error:', error);
     // Fallback to approximation
-    const fallbackCount = Math.ceil(text.length / 4);
+    const fallbackCount = approximateTokens(text, encoding);
     console.warn(`[FALLBACK] Using approximation: ${text.length} chars -> ${fallbackCount} tokens`);
-    return fallbackCount;
+    return { tokens: fallbackCount, exact: false, error: error.message };
+  }
+}
+
+export async function countTokens(
+  text: string,
+  encoding: EncodingId
+): Promise<number> {
+  return (await measureTokens(text, encoding)).tokens;
+}
+
+// Count several texts in one message to the background
+export async function measureTokensBatch(
+  texts: string[],
+  encoding: EncodingId
+): Promise<TokenCount[]> {
+  if (texts.length === 0) return [];
+  try {
+    const response = await sendTokenizerMessage({
+      type: 'COUNT_TOKENS_BATCH',
+      texts,
+      encoding
+    });
+
+    if (response.success) {
+      return (response.counts as number[]).map(tokens => ({ tokens, exact: true }));
+    } else {
+      throw new Error(response.error);
+    }
+  } catch (error: any) {
+    console.error('Batch token count error:', error);
+    console.warn(`[FALLBACK] Using approximation for ${texts.length} texts`);
+    return texts.map(text => ({ tokens: approximateTokens(text, encoding), exact: false, error: error.message }));
   }
 }
 
-// Export approximation function as well
-export function approximateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+// Offline estimate by script and character class, for when the tokenizer can't be reached
+export function approximateTokens(text: string, encoding: EncodingId): number {
+  return estimateTokens(text, encoding);
 }
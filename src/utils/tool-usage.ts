@@ -0,0 +1,54 @@
+// Token estimates for reasoning traces, tool outputs and web-search results
+import { TOOL_ESTIMATES } from './constants';
+import { CountSource } from '../types';
+
+export interface ToolUsageEstimate {
+  tokens: number;
+  source: CountSource;
+}
+
+// Counts expanded text; the tracker passes its cached counter
+export type TextCounter = (text: string) => Promise<ToolUsageEstimate>;
+
+// Parse "Thought for 12s", "Thought for 1m 5s", "Thinking for 8 seconds"
+export function parseThoughtSeconds(text: string): number | null {
+  const match = text.match(/(?:thought|thinking|reasoned)\s+for\s+(?:(\d+)\s*m(?:in(?:utes?)?)?\s*)?(?:(\d+)\s*s(?:ec(?:onds?)?)?)?/i);
+  if (!match || (!match[1] && !match[2])) return null;
+  return parseInt(match[1] || '0', 10) * 60 + parseInt(match[2] || '0', 10);
+}
+
+// Full text of an expanded block; collapsed blocks only show a summary line
+export function expandedText(element: Element): string | null {
+  const text = (element.textContent || '').trim();
+  return text.length < TOOL_ESTIMATES.COLLAPSED_TEXT_LENGTH ? null : text;
+}
+
+export async function estimateReasoningTokens(element: Element, count: TextCounter): Promise<ToolUsageEstimate> {
+  // Expanded blocks show the full trace
+  const text = expandedText(element);
+  if (text !== null) return count(text);
+
+  const seconds = parseThoughtSeconds(element.textContent || '');
+  return {
+    tokens: seconds !== null
+      ? Math.max(1, seconds) * TOOL_ESTIMATES.REASONING_TOKENS_PER_SECOND
+      : TOOL_ESTIMATES.DEFAULT_REASONING,
+    source: 'estimated',
+  };
+}
+
+export async function estimateToolOutputTokens(element: Element, count: TextCounter): Promise<ToolUsageEstimate> {
+  const text = expandedText(element);
+  if (text !== null) return count(text);
+  return { tokens: TOOL_ESTIMATES.DEFAULT_TOOL_OUTPUT, source: 'estimated' };
+}
+
+// Search results are in context but only their citations are rendered
+export function countDistinctSources(citations: Element[]): number {
+  const sources = new Set<string>();
+  citations.forEach(citation => {
+    const link = citation instanceof HTMLAnchorElement ? citation : citation.querySelector('a');
+    sources.add(link?.href || (citation.textContent || '').trim());
+  });
+  return sources.size;
+}
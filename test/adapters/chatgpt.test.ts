@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chatgptAdapter } from '../../src/adapters/chatgpt';
+import { BUNDLED_CATALOG, matchCatalogModel } from '../../src/utils/catalog';
+import { findAllElements, findElement, keepOutermost, readInput, readMessages } from '../../src/utils/dom';
+import { findBranchPosition } from '../../src/utils/branches';
+import { describeAttachmentElement } from '../../src/utils/attachments';
+import { countDistinctSources } from '../../src/utils/tool-usage';
+import { loadPage, unmatchedGroups } from '../helpers';
+
+const CHAT_URL = 'https://chatgpt.com/c/67d3e1a9-4f2b-8000-a1c3-5e7b9d2f4a60?model=o3';
+
+test('every selector group matches the saved chat page', () => {
+  loadPage('adapters/chatgpt-chat.html', CHAT_URL);
+  assert.deepEqual(unmatchedGroups(chatgptAdapter), []);
+});
+
+test('reads both turns with the reasoning label left out', () => {
+  loadPage('adapters/chatgpt-chat.html', CHAT_URL);
+  const transcript = readMessages(chatgptAdapter);
+  assert.deepEqual(transcript.map(message => message.role), ['user', 'assistant']);
+  assert.match(transcript[0].text, /Write a regex that matches ISO 8601 dates/);
+  assert.doesNotMatch(transcript[1].text, /Thought for/);
+  assert.match(transcript[1].text, /checks month and day ranges/);
+});
+
+test('finds the model, plan, draft and send button', () => {
+  const page = loadPage('adapters/chatgpt-chat.html', CHAT_URL);
+  const label = findElement(chatgptAdapter.selectors.modelSelector)!.textContent || '';
+  assert.equal(matchCatalogModel(BUNDLED_CATALOG, 'chatgpt', label, 'plus'), 'o3');
+  assert.equal(chatgptAdapter.detectPlan(), 'plus');
+  assert.equal(readInput(chatgptAdapter)?.text, 'Does it reject 2025-02-30?');
+  assert.equal(findElement(chatgptAdapter.selectors.sendButton!)!.id, 'composer-submit-button');
+
+  assert.equal(chatgptAdapter.conversationId!(page.window.location), '67d3e1a9-4f2b-8000-a1c3-5e7b9d2f4a60');
+  assert.equal(chatgptAdapter.normalizeUrl!(page.window.location.href), 'https://chatgpt.com/c/67d3e1a9-4f2b-8000-a1c3-5e7b9d2f4a60');
+});
+
+test('describes the file tile, the thinking label, citations and the branch counter', () => {
+  loadPage('adapters/chatgpt-chat.html', CHAT_URL);
+  const [user, assistant] = readMessages(chatgptAdapter);
+
+  const [tile] = keepOutermost(findAllElements(chatgptAdapter.selectors.attachments!, user.element));
+  const info = describeAttachmentElement(tile)!;
+  assert.equal(info.kind, 'text');
+  assert.equal(info.sizeBytes, 2048);
+
+  const [reasoning] = findAllElements(chatgptAdapter.selectors.reasoning!, assistant.element);
+  assert.equal(reasoning.textContent, 'Thought for 3s');
+  assert.equal(countDistinctSources(findAllElements(chatgptAdapter.selectors.citations!, assistant.element)), 1);
+
+  const elements = [user.element, assistant.element];
+  assert.deepEqual(findBranchPosition(assistant.element, chatgptAdapter.selectors.branchNavigator!, elements), { index: 2, total: 2 });
+});
+
+test('falls back to the "You said" / "ChatGPT said" article headings', () => {
+  const page = loadPage('adapters/chatgpt-chat.html', CHAT_URL);
+  page.window.document.querySelectorAll('[data-message-author-role]').forEach(element => element.removeAttribute('data-message-author-role'));
+  assert.deepEqual(readMessages(chatgptAdapter).map(message => message.role), ['user', 'assistant']);
+});
+
+test('tells project chats, custom GPTs and new chats apart', () => {
+  const page = loadPage('adapters/chatgpt-chat.html', 'https://chatgpt.com/g/g-p-6810ab2c3d4e-sales/project');
+  assert.deepEqual(chatgptAdapter.projectContext!(page.window.location), {
+    id: 'g-p-6810ab2c3d4e',
+    isOverview: true,
+    feature: 'projectKnowledge',
+  });
+  const gpt = loadPage('adapters/chatgpt-chat.html', 'https://chatgpt.com/g/g-2fkFE8rbu-data-analyst/c/67d3e1a9-4f2b-8000-a1c3-5e7b9d2f4a60');
+  assert.equal(chatgptAdapter.projectContext!(gpt.window.location)?.feature, 'customInstructions');
+  assert.equal(chatgptAdapter.conversationId!(gpt.window.location), '67d3e1a9-4f2b-8000-a1c3-5e7b9d2f4a60');
+  const fresh = loadPage('adapters/chatgpt-chat.html', 'https://chatgpt.com/');
+  assert.equal(chatgptAdapter.isNewChat(fresh.window.location), true);
+});
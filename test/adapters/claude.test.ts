@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { claudeAdapter } from '../../src/adapters/claude';
+import { BUNDLED_CATALOG, matchCatalogModel } from '../../src/utils/catalog';
+import { findAllElements, findElement, keepOutermost, readInput, readMessages } from '../../src/utils/dom';
+import { findBranchPosition } from '../../src/utils/branches';
+import { measureProjectPage } from '../../src/utils/projects';
+import { loadPage, unmatchedGroups } from '../helpers';
+
+const CHAT_URL = 'https://claude.ai/chat/3f1c2a9e-7b4d-4e2a-9c1f-5d8e6a7b9c01';
+
+test('every selector group matches the saved chat page', () => {
+  loadPage('adapters/claude-chat.html', CHAT_URL);
+  assert.deepEqual(unmatchedGroups(claudeAdapter, ['planIndicators']), []);
+});
+
+test('reads each turn once, without reasoning, tool output or button labels', () => {
+  loadPage('adapters/claude-chat.html', CHAT_URL);
+  const transcript = readMessages(claudeAdapter);
+  assert.deepEqual(transcript.map(message => message.role), ['user', 'assistant', 'user', 'assistant']);
+  assert.equal(transcript[1].text, 'EMEA brought in 218,650 across April and May, APAC 178,310. EMEA dipped in May while APAC grew.');
+  assert.match(transcript[3].text, /^April was strongest/);
+  assert.doesNotMatch(transcript[3].text, /207410|Retry/);
+});
+
+test('counts a reply once when fallback selectors match it and its wrappers', () => {
+  loadPage('adapters/claude-chat.html', CHAT_URL);
+  // The fallbacks match each reply's body and the wrappers around it
+  assert.ok(findAllElements(claudeAdapter.selectors.assistantMessages).length > 2);
+
+  const replies = readMessages(claudeAdapter).filter(message => message.role === 'assistant');
+  assert.equal(replies.length, 2);
+  assert.equal(replies.filter(reply => /^EMEA brought in/.test(reply.text)).length, 1);
+  assert.equal(replies.filter(reply => /^April was strongest/.test(reply.text)).length, 1);
+});
+
+test('finds the model, plan, draft and send button', () => {
+  loadPage('adapters/claude-chat.html', CHAT_URL);
+  const label = findElement(claudeAdapter.selectors.modelSelector)!.textContent || '';
+  assert.equal(matchCatalogModel(BUNDLED_CATALOG, 'claude', label, 'pro'), 'claude-sonnet-4');
+  assert.equal(claudeAdapter.detectPlan(), 'pro');
+  assert.equal(readInput(claudeAdapter)?.text, 'Chart it for me\nas a bar chart, please.');
+  assert.ok(findElement(claudeAdapter.selectors.sendButton!));
+});
+
+test('describes the uploaded file and the artifact card', () => {
+  loadPage('adapters/claude-chat.html', CHAT_URL);
+  const chips = keepOutermost(findAllElements(claudeAdapter.selectors.attachments!));
+  const infos = chips.map(chip => claudeAdapter.describeAttachment!(chip));
+  assert.deepEqual(infos.map(info => [info?.kind, info?.name, info?.lines]), [
+    ['text', 'sales-q2.csv', 5],
+    ['artifact', 'Revenue by month', undefined],
+  ]);
+});
+
+test('finds thinking and tool blocks inside replies and the branch counter', () => {
+  loadPage('adapters/claude-chat.html', CHAT_URL);
+  const [, first, , second] = readMessages(claudeAdapter);
+  assert.equal(findAllElements(claudeAdapter.selectors.reasoning!, first.element).length, 1);
+  assert.equal(findAllElements(claudeAdapter.selectors.toolOutputs!, second.element).length, 1);
+
+  const elements = readMessages(claudeAdapter).map(message => message.element);
+  assert.deepEqual(findBranchPosition(second.element, claudeAdapter.selectors.branchNavigator!, elements), { index: 2, total: 2 });
+  assert.equal(findBranchPosition(first.element, claudeAdapter.selectors.branchNavigator!, elements), null);
+});
+
+test('recognises project chats and the project overview', async () => {
+  const chat = loadPage('adapters/claude-chat.html', CHAT_URL);
+  assert.deepEqual(claudeAdapter.projectContext!(chat.window.location), {
+    id: '0197c2d4-5e6f-7a8b-9c0d-1e2f3a4b5c6d',
+    isOverview: false,
+    feature: 'projectKnowledge',
+  });
+  assert.equal(claudeAdapter.isNewChat(chat.window.location), false);
+
+  const overview = loadPage('adapters/claude-project.html', 'https://claude.ai/project/0197c2d4-5e6f-7a8b-9c0d-1e2f3a4b5c6d');
+  const context = claudeAdapter.projectContext!(overview.window.location)!;
+  assert.equal(context.isOverview, true);
+
+  const counted: string[] = [];
+  const baseline = await measureProjectPage(claudeAdapter, context, async text => {
+    counted.push(text);
+    return 20;
+  });
+  assert.ok(baseline);
+  assert.equal(baseline.name, 'Sales team');
+  assert.equal(baseline.fileCount, 2);
+  assert.equal(baseline.capacityPercent, 12);
+  // The capacity meter wins over per-file guesses: 12% of 200K
+  assert.equal(baseline.filesTokens, 24000);
+  assert.equal(baseline.instructionsTokens, 20);
+  assert.match(counted[0], /Answer as a sales analyst/);
+});
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { geminiAdapter } from '../../src/adapters/gemini';
+import { BUNDLED_CATALOG, matchCatalogModel } from '../../src/utils/catalog';
+import { findAllElements, findElement, keepOutermost, readMessages } from '../../src/utils/dom';
+import { describeAttachmentElement } from '../../src/utils/attachments';
+import { loadPage, unmatchedGroups } from '../helpers';
+
+const CHAT_URL = 'https://gemini.google.com/app/4b8e1f2a9c3d7e60';
+
+test('every selector group matches the saved chat page', () => {
+  loadPage('adapters/gemini-chat.html', CHAT_URL);
+  assert.deepEqual(unmatchedGroups(geminiAdapter, ['planIndicators']), []);
+});
+
+test('reads the query and response bodies without buttons or thoughts', () => {
+  loadPage('adapters/gemini-chat.html', CHAT_URL);
+  assert.deepEqual(readMessages(geminiAdapter).map(message => [message.role, message.text]), [
+    ['user', 'Plan three days in Lisbon around this itinerary.'],
+    ['assistant', 'Day one: Alfama and the castle. Day two: Belém. Day three: Sintra by train.'],
+  ]);
+});
+
+test('finds the mode, file preview, thoughts, sources and send button', () => {
+  loadPage('adapters/gemini-chat.html', CHAT_URL);
+  const label = findElement(geminiAdapter.selectors.modelSelector)!.textContent || '';
+  assert.equal(matchCatalogModel(BUNDLED_CATALOG, 'gemini', label, 'free'), 'gemini-2.5-pro');
+
+  const [user, assistant] = readMessages(geminiAdapter);
+  const [preview] = keepOutermost(findAllElements(geminiAdapter.selectors.attachments!, user.element));
+  const info = describeAttachmentElement(preview)!;
+  assert.equal(info.kind, 'pdf');
+  assert.equal(info.pages, 3);
+
+  assert.equal(findAllElements(geminiAdapter.selectors.reasoning!, assistant.element).length, 1);
+  assert.equal(findAllElements(geminiAdapter.selectors.citations!, assistant.element).length, 1);
+  assert.ok(findElement(geminiAdapter.selectors.sendButton!));
+});
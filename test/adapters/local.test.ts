@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLocalAdapter } from '../../src/adapters/local';
+import { findElement, readInput, readMessages } from '../../src/utils/dom';
+import { CustomSite } from '../../src/types';
+import { loadPage, unmatchedGroups } from '../helpers';
+
+const openWebUI: CustomSite = {
+  origin: 'http://localhost:3000',
+  flavor: 'open-webui',
+  models: { 'qwen2.5:14b': 32768, 'llama3.1:8b': 131072 },
+  defaultMaxTokens: 8192,
+};
+
+const libreChat: CustomSite = {
+  origin: 'https://chat.internal.example',
+  flavor: 'librechat',
+  models: { 'gpt-4o-mini': 128000, 'mistral-small': 32000 },
+  defaultMaxTokens: 8192,
+};
+
+test('builds the adapter for the configured flavor and origin', () => {
+  const adapter = createLocalAdapter(libreChat);
+  assert.equal(adapter.id, 'librechat');
+  assert.deepEqual(adapter.hostnames, ['chat.internal.example']);
+  assert.deepEqual(adapter.limits, { default: libreChat.models });
+  assert.equal(adapter.fallbackMaxTokens, 8192);
+  assert.equal(createLocalAdapter(openWebUI).id, 'open-webui');
+});
+
+test('Open WebUI: selectors, message bodies, model and draft', () => {
+  loadPage('adapters/open-webui-chat.html', 'http://localhost:3000/c/8e2f4a6b-1c3d-4e5f-9a7b-0c1d2e3f4a5b');
+  const adapter = createLocalAdapter(openWebUI);
+  assert.deepEqual(unmatchedGroups(adapter, ['planIndicators']), []);
+
+  assert.deepEqual(readMessages(adapter).map(message => [message.role, message.text]), [
+    ['user', 'Explain Raft leader election in two sentences.'],
+    ['assistant', 'Nodes that stop hearing from a leader become candidates and request votes. A candidate with a majority becomes leader for that term.'],
+  ]);
+  const label = findElement(adapter.selectors.modelSelector)!.textContent || '';
+  assert.equal(adapter.detectModel!(label, adapter.detectPlan()), 'llama3.1:8b');
+  assert.equal(readInput(adapter)?.text, 'What about log replication?');
+  assert.equal(findElement(adapter.selectors.sendButton!)!.id, 'send-message-button');
+});
+
+test('LibreChat: selectors, message bodies, model and draft', () => {
+  const page = loadPage('adapters/librechat-chat.html', 'https://chat.internal.example/c/new');
+  const adapter = createLocalAdapter(libreChat);
+  assert.deepEqual(unmatchedGroups(adapter, ['planIndicators']), []);
+
+  assert.deepEqual(readMessages(adapter).map(message => [message.role, message.text]), [
+    ['user', 'Give me a haiku about tides.'],
+    ['assistant', 'Moon pulls the water / the shore forgets every line / sand keeps no promise'],
+  ]);
+  const label = findElement(adapter.selectors.modelSelector)!.textContent || '';
+  assert.equal(adapter.detectModel!(label, adapter.detectPlan()), 'mistral-small');
+  assert.equal(readInput(adapter)?.text, 'Now one about rivers');
+  assert.equal(adapter.isNewChat(page.window.location), true);
+});
@@ -0,0 +1,108 @@
+import { after, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { BUNDLED_CATALOG, getCatalog, getCatalogStatus } from '../../src/utils/catalog';
+import { STORAGE_KEYS } from '../../src/utils/constants';
+import { DEFAULT_SETTINGS } from '../../src/utils/storage';
+import { installChromeStorage } from '../helpers';
+
+// The updater reads the storage API once at load, so install it before importing
+const storage = installChromeStorage();
+const updater = import('../../src/background/catalog-updater');
+
+const NEWER = { ...BUNDLED_CATALOG, version: BUNDLED_CATALOG.version + 1 };
+const OLDER = { ...BUNDLED_CATALOG, version: BUNDLED_CATALOG.version - 1 };
+const INVALID = {
+  schemaVersion: 2,
+  version: 0,
+  updatedAt: '2026-10-19',
+  models: [{ provider: 'claude', id: '', aliases: ['sonnet'], limits: { pro: -1 }, encoding: 'claude' }],
+};
+
+const ROUTES: { [path: string]: { status: number; type: string; body: string } } = {
+  '/newer.json': { status: 200, type: 'application/json', body: JSON.stringify(NEWER) },
+  '/older.json': { status: 200, type: 'application/json', body: JSON.stringify(OLDER) },
+  '/invalid.json': { status: 200, type: 'application/json', body: JSON.stringify(INVALID) },
+  '/not-json': { status: 200, type: 'text/html', body: '<!doctype html><title>Moved</title>' },
+};
+
+let server: http.Server;
+let origin = '';
+
+before(async () => {
+  server = http.createServer((request, response) => {
+    const route = ROUTES[request.url || ''] || { status: 404, type: 'text/plain', body: 'Not found' };
+    response.writeHead(route.status, { 'Content-Type': route.type });
+    response.end(route.body);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  for (const items of [storage.local, storage.sync]) {
+    Object.keys(items).forEach(key => delete items[key]);
+  }
+});
+
+async function refreshFrom(path: string) {
+  const catalogUrl = `${origin}${path}`;
+  storage.sync[STORAGE_KEYS.SETTINGS] = { ...DEFAULT_SETTINGS, catalogUrl };
+  const { refreshCatalog } = await updater;
+  return { catalogUrl, status: await refreshCatalog() };
+}
+
+test('does nothing without a catalog URL', async () => {
+  const { refreshCatalog } = await updater;
+  assert.equal(await refreshCatalog(), null);
+  assert.deepEqual(storage.local, {});
+});
+
+test('stores a valid catalog and prefers it over the bundled copy', async () => {
+  const { catalogUrl, status } = await refreshFrom('/newer.json');
+  assert.equal(status?.source, catalogUrl);
+  assert.equal(status?.version, NEWER.version);
+  assert.equal(status?.errors, undefined);
+  assert.deepEqual(storage.local[STORAGE_KEYS.MODEL_CATALOG], NEWER);
+  assert.deepEqual(await getCatalogStatus(), status);
+  assert.equal((await getCatalog()).version, NEWER.version);
+});
+
+test('keeps the bundled copy when the served catalog is older', async () => {
+  const { status } = await refreshFrom('/older.json');
+  assert.equal(status?.version, OLDER.version);
+  assert.equal(await getCatalog(), BUNDLED_CATALOG);
+});
+
+test('rejects an invalid catalog and keeps the previous one', async () => {
+  await refreshFrom('/newer.json');
+  const { status } = await refreshFrom('/invalid.json');
+  assert.equal(status?.version, undefined);
+  assert.deepEqual(status?.errors, [
+    'Unsupported schemaVersion 2 (expected 1)',
+    'version must be a positive integer',
+    'models[0].id must be a non-empty string',
+    'models[0].limits.pro must be a positive integer',
+  ]);
+  assert.deepEqual(storage.local[STORAGE_KEYS.MODEL_CATALOG], NEWER);
+  assert.equal((await getCatalog()).version, NEWER.version);
+});
+
+test('records HTTP errors without touching the stored catalog', async () => {
+  const { catalogUrl, status } = await refreshFrom('/missing.json');
+  assert.equal(status?.source, catalogUrl);
+  assert.deepEqual(status?.errors, ['Failed to fetch catalog: HTTP 404']);
+  assert.equal(storage.local[STORAGE_KEYS.MODEL_CATALOG], undefined);
+  assert.deepEqual(await getCatalogStatus(), status);
+  assert.equal(await getCatalog(), BUNDLED_CATALOG);
+});
+
+test('records a response that is not JSON', async () => {
+  const { status } = await refreshFrom('/not-json');
+  assert.equal(status?.errors?.length, 1);
+  assert.match(status!.errors![0], /^Failed to fetch catalog: .*JSON/);
+  assert.equal(storage.local[STORAGE_KEYS.MODEL_CATALOG], undefined);
+});
@@ -0,0 +1,103 @@
+// Shared helpers for the node:test suites; paths are relative to the repo root, where npm runs them
+import * as fs from 'fs';
+import * as path from 'path';
+import { JSDOM } from 'jsdom';
+import { Tiktoken } from 'tiktoken/lite';
+import { CapturedResponse, ProviderAdapter, ProviderSelectors } from '../src/types';
+import { BaseEncoding } from '../src/utils/encodings';
+import { DIAGNOSTIC_GROUPS, probeGroup } from '../src/utils/diagnostics';
+
+export function readFixture(name: string): string {
+  return fs.readFileSync(path.join('test', 'fixtures', name), 'utf8');
+}
+
+// A captured response as the main-world capture script forwards it
+export function capturedResponse(url: string, method: string, body: string, requestBody?: string): CapturedResponse {
+  return {
+    url,
+    method,
+    requestBody,
+    contentType: body.startsWith('{') ? 'application/json' : 'text/event-stream; charset=utf-8',
+    body,
+  };
+}
+
+// DOM globals the content-script code reads
+const PAGE_GLOBALS = [
+  'document', 'Node', 'Element', 'HTMLElement', 'HTMLAnchorElement', 'HTMLImageElement',
+  'HTMLInputElement', 'HTMLTextAreaElement', 'MutationObserver',
+];
+
+// Load a saved page as the global window and document, the way a content script sees it
+export function loadPage(name: string, url: string): JSDOM {
+  const dom = new JSDOM(readFixture(name), { url });
+  const globals = globalThis as any;
+  globals.window = dom.window;
+  PAGE_GLOBALS.forEach(key => {
+    globals[key] = (dom.window as any)[key];
+  });
+  return dom;
+}
+
+// Diagnostic selector groups with no match on the loaded page, leaving out the optional ones
+export function unmatchedGroups(adapter: ProviderAdapter, optional: (keyof ProviderSelectors)[] = []): string[] {
+  return DIAGNOSTIC_GROUPS
+    .filter(group => !optional.includes(group))
+    .filter(group => !probeGroup(group, adapter.selectors[group]).health.matched);
+}
+
+type StorageItems = { [key: string]: unknown };
+
+function storageArea(items: StorageItems) {
+  const keyList = (keys: string | string[]) => (Array.isArray(keys) ? keys : [keys]);
+  return {
+    get: async (keys?: string | string[] | null) => {
+      if (keys == null) return { ...items };
+      return Object.fromEntries(keyList(keys).filter(key => key in items).map(key => [key, items[key]]));
+    },
+    set: async (values: StorageItems) => {
+      Object.assign(items, values);
+    },
+    remove: async (keys: string | string[]) => {
+      keyList(keys).forEach(key => delete items[key]);
+    },
+  };
+}
+
+// In-memory chrome.storage.local and .sync as the global chrome; returns the backing items
+export function installChromeStorage(): { local: StorageItems; sync: StorageItems } {
+  const local: StorageItems = {};
+  const sync: StorageItems = {};
+  (globalThis as any).chrome = {
+    storage: {
+      local: storageArea(local),
+      sync: storageArea(sync),
+      onChanged: { addListener: () => {} },
+    },
+  };
+  return { local, sync };
+}
+
+// Estimator samples: test/fixtures/estimator/<set>/<category>.txt, one sample per %%%-separated block.
+// The rates are fitted on the 'fit' set; 'held-out' checks them on samples the fit never saw
+export function readCorpus(set: 'fit' | 'held-out'): { category: string; text: string }[] {
+  const dir = path.join('estimator', set);
+  return fs.readdirSync(path.join('test', 'fixtures', dir)).sort().flatMap(file => {
+    const category = path.basename(file, '.txt');
+    return readFixture(path.join(dir, file)).split(/\n%%%\n/).map(text => ({ category, text: text.trim() }));
+  });
+}
+
+// The vocabularies build.js copies into dist/encodings
+const ENCODING_FILES: { [base in BaseEncoding]: string } = {
+  o200k_base: 'node_modules/tiktoken/encoders/o200k_base.json',
+  cl100k_base: 'node_modules/tiktoken/encoders/cl100k_base.json',
+  claude: 'node_modules/@anthropic-ai/tokenizer/dist/cjs/claude.json',
+};
+
+// Exact token count with the real encoder, loaded the way the background loads it
+export function loadEncoder(base: BaseEncoding): (text: string) => number {
+  const ranks = JSON.parse(fs.readFileSync(ENCODING_FILES[base], 'utf8'));
+  const encoder = new Tiktoken(ranks.bpe_ranks, ranks.special_tokens, ranks.pat_str);
+  return text => encoder.encode(text).length;
+}
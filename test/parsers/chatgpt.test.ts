@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseChatGPTConversation, parseChatGPTStream } from '../../src/parsers/chatgpt';
+import { activePath, branchPosition, inactiveBranches } from '../../src/parsers/tree';
+import { capturedResponse, readFixture } from '../helpers';
+
+const CONVERSATION_ID = '67d3e1a9-4f2b-8000-a1c3-5e7b9d2f4a60';
+
+function conversation() {
+  const parsed = parseChatGPTConversation(
+    capturedResponse(`https://chatgpt.com/backend-api/conversation/${CONVERSATION_ID}`, 'GET', readFixture('chatgpt/conversation.json'))
+  );
+  assert.ok(parsed);
+  return parsed;
+}
+
+test('keeps every mapping node so parent links hold', () => {
+  const parsed = conversation();
+  assert.equal(parsed.id, CONVERSATION_ID);
+  assert.equal(Object.keys(parsed.messages).length, 10);
+  assert.equal(parsed.currentLeafId, '4c7d0f1b-1e5a-4d69-8af5-4a8b1e6c2d09');
+  assert.equal(parsed.messages['client-created-root'].parentId, null);
+  assert.equal(parsed.messages['8a1d4f6b-2c9e-4b07-a3f5-6e1b9c7d2f03'].createdAt, 1748856201874);
+});
+
+test('drops hidden system and custom-instruction nodes and reads tool traffic', () => {
+  const parsed = conversation();
+  const path = activePath(parsed);
+  assert.equal(path.length, 9);
+  assert.deepEqual(
+    path.filter(message => message.parts.length > 0).map(message => [message.role, message.parts[0].kind, message.parts[0].name]),
+    [
+      ['user', 'text', undefined],
+      ['assistant', 'reasoning', undefined],
+      ['assistant', 'tool', 'python'],
+      ['tool', 'tool', 'python'],
+      ['assistant', 'text', undefined],
+    ]
+  );
+  assert.equal(
+    parsed.messages['3e7c9a2d-4b1f-4e58-b6d0-8f2a5c9e1b04'].parts[0].text,
+    'Four digit year, two digit month 01-12, two digit day 01-31.'
+  );
+  // "Thought for 3 seconds" is only a label
+  assert.deepEqual(parsed.messages['6d2b8e4f-7a3c-4d19-95e1-0c4f7a2d8e05'].parts, []);
+});
+
+test('reports the regenerated answer as a branch', () => {
+  const parsed = conversation();
+  const path = activePath(parsed);
+  assert.deepEqual(branchPosition(parsed, parsed.messages['1a5b2d8f-9c3e-4b47-a8d3-2e6f9c4a0b07']), { index: 2, total: 2 });
+
+  const inactive = inactiveBranches(parsed, path);
+  assert.deepEqual(inactive.messages.map(message => message.id), ['9f4a1c7e-8b2d-4a36-b7c2-1d5e8b3f9a06']);
+  assert.equal(inactive.branchCount, 1);
+});
+
+test('applies v1 delta events, including implicit paths and patches', () => {
+  const exchange = parseChatGPTStream(
+    capturedResponse(
+      'https://chatgpt.com/backend-api/f/conversation',
+      'POST',
+      readFixture('chatgpt/completion-v1.sse'),
+      readFixture('chatgpt/completion.request.json')
+    )
+  );
+  assert.ok(exchange);
+  assert.equal(exchange.conversationId, CONVERSATION_ID);
+  assert.equal(exchange.parentId, '4c7d0f1b-1e5a-4d69-8af5-4a8b1e6c2d09');
+
+  // The prompt is echoed by the stream and only appears once
+  assert.deepEqual(exchange.messages.map(message => [message.role, message.parts]), [
+    ['user', [{ kind: 'text', text: 'Does it reject 2025-02-30?', name: undefined }]],
+    ['assistant', [{ kind: 'reasoning', text: 'The pattern allows day 30 for every month.' }]],
+    ['assistant', [{
+      kind: 'text',
+      text: 'No, it accepts 2025-02-30; a regex can\'t know month lengths, so parse it with a date library.',
+      name: undefined,
+    }]],
+  ]);
+});
+
+test('reads legacy full-message events and hangs new chats off the root', () => {
+  const exchange = parseChatGPTStream(
+    capturedResponse(
+      'https://chatgpt.com/backend-api/conversation',
+      'POST',
+      readFixture('chatgpt/completion-legacy.sse'),
+      readFixture('chatgpt/new-chat.request.json')
+    )
+  );
+  assert.ok(exchange);
+  assert.equal(exchange.conversationId, '4a9e2c7b-1d3f-4b6a-9e8c-7d5f3b1a9c21');
+  assert.equal(exchange.parentId, null);
+  assert.deepEqual(exchange.messages.map(message => message.parts[0].text), [
+    'What is a monad?',
+    'A monad wraps values and chains computations on them.',
+  ]);
+});
+
+test('ignores JSON responses on the completion endpoint', () => {
+  const response = capturedResponse('https://chatgpt.com/backend-api/conversation', 'POST', '{"detail":"rate limited"}');
+  assert.equal(parseChatGPTStream(response), null);
+});
@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseClaudeConversation, parseClaudeStream } from '../../src/parsers/claude';
+import { activePath, applyExchange, branchPosition, inactiveBranches } from '../../src/parsers/tree';
+import { capturedResponse, readFixture } from '../helpers';
+
+const CONVERSATION_ID = '3f1c2a9e-7b4d-4e2a-9c1f-5d8e6a7b9c01';
+const BASE = `https://claude.ai/api/organizations/8c2e4f6a-1b3d-4a5c-9e7f-0a1b2c3d4e5f/chat_conversations/${CONVERSATION_ID}`;
+
+function conversation() {
+  const parsed = parseClaudeConversation(
+    capturedResponse(`${BASE}?tree=True&rendering_mode=messages&render_all_tools=true`, 'GET', readFixture('claude/conversation.json'))
+  );
+  assert.ok(parsed);
+  return parsed;
+}
+
+test('parses the conversation tree with its current leaf', () => {
+  const parsed = conversation();
+  assert.equal(parsed.id, CONVERSATION_ID);
+  assert.equal(parsed.complete, true);
+  assert.equal(Object.keys(parsed.messages).length, 5);
+  assert.equal(parsed.currentLeafId, 'c5e0b7d4-1a2f-4c3b-8d9e-0f1a2b3c4d55');
+
+  // The all-zero root parent becomes null
+  const first = parsed.messages['a1b2c3d4-0001-4a1b-9c2d-111111111111'];
+  assert.equal(first.parentId, null);
+  assert.equal(first.role, 'user');
+  assert.equal(first.createdAt, Date.parse('2025-06-02T09:14:03.420190Z'));
+});
+
+test('maps text, thinking, tool and attachment blocks to parts', () => {
+  const parsed = conversation();
+  assert.deepEqual(parsed.messages['a1b2c3d4-0001-4a1b-9c2d-111111111111'].parts.map(part => [part.kind, part.name]), [
+    ['text', undefined],
+    ['attachment', 'sales-q2.csv'],
+  ]);
+  assert.deepEqual(parsed.messages['a1b2c3d4-0002-4a1b-9c2d-222222222222'].parts.map(part => part.kind), ['reasoning', 'text']);
+
+  const [toolUse, toolResult, text] = parsed.messages['b4d9a6c3-0e1f-4b2a-9c8d-7e6f5a4b3c44'].parts;
+  assert.deepEqual(toolUse, { kind: 'tool', name: 'repl', text: '{"code":"[120400 + 87010, 98250 + 91300]"}' });
+  assert.deepEqual(toolResult, { kind: 'tool', name: 'repl', text: '[207410, 189550]' });
+  assert.equal(text.kind, 'text');
+});
+
+test('follows the retried branch and reports the other one as inactive', () => {
+  const parsed = conversation();
+  const path = activePath(parsed);
+  assert.deepEqual(path.map(message => message.id), [
+    'a1b2c3d4-0001-4a1b-9c2d-111111111111',
+    'a1b2c3d4-0002-4a1b-9c2d-222222222222',
+    'a1b2c3d4-0003-4a1b-9c2d-333333333333',
+    'c5e0b7d4-1a2f-4c3b-8d9e-0f1a2b3c4d55',
+  ]);
+  assert.deepEqual(branchPosition(parsed, path[3]), { index: 2, total: 2 });
+  assert.equal(branchPosition(parsed, path[0]), null);
+
+  const inactive = inactiveBranches(parsed, path);
+  assert.deepEqual(inactive.messages.map(message => message.id), ['b4d9a6c3-0e1f-4b2a-9c8d-7e6f5a4b3c44']);
+  assert.equal(inactive.branchCount, 1);
+});
+
+test('ignores other endpoints and methods', () => {
+  const body = readFixture('claude/conversation.json');
+  assert.equal(parseClaudeConversation(capturedResponse(BASE, 'POST', body)), null);
+  assert.equal(parseClaudeConversation(capturedResponse(`${BASE}/completion`, 'GET', body)), null);
+  assert.equal(parseClaudeConversation(capturedResponse(BASE, 'GET', '<html>')), null);
+});
+
+test('rebuilds a streamed completion from content block deltas', () => {
+  const exchange = parseClaudeStream(
+    capturedResponse(`${BASE}/completion`, 'POST', readFixture('claude/completion.sse'), readFixture('claude/completion.request.json'))
+  );
+  assert.ok(exchange);
+  assert.equal(exchange.conversationId, CONVERSATION_ID);
+  assert.equal(exchange.parentId, 'c5e0b7d4-1a2f-4c3b-8d9e-0f1a2b3c4d55');
+  assert.equal(exchange.replacesLeaf, false);
+
+  const [user, assistant] = exchange.messages;
+  assert.equal(user.id, 'd6f1c8e5-2b3a-4d4c-9eaf-1a2b3c4d5e66');
+  assert.deepEqual(user.parts, [{ kind: 'text', text: 'Chart it for me as a bar chart, please.' }]);
+  assert.equal(assistant.id, 'e7a2d9f6-3c4b-4e5d-8fb0-2b3c4d5e6f77');
+  assert.deepEqual(assistant.parts, [
+    { kind: 'reasoning', text: 'A bar per month, stacked by region.' },
+    { kind: 'tool', name: 'artifacts', text: '{"command": "create", "id": "sales-chart", "type": "application/vnd.ant.react"}' },
+    { kind: 'text', text: 'Here is the chart: April leads, carried by EMEA.' },
+  ]);
+
+  // Appended below the previous leaf, the new reply becomes the active path's end
+  const merged = applyExchange(conversation(), exchange.messages, exchange.parentId!);
+  assert.equal(merged.currentLeafId, assistant.id);
+  assert.equal(activePath(merged).length, 6);
+});
+
+test('a retry without a parent replaces the current leaf and sends no prompt', () => {
+  const exchange = parseClaudeStream(
+    capturedResponse(`${BASE}/retry_completion`, 'POST', readFixture('claude/completion.sse'), readFixture('claude/retry.request.json'))
+  );
+  assert.ok(exchange);
+  assert.equal(exchange.replacesLeaf, true);
+  assert.equal(exchange.parentId, undefined);
+  assert.deepEqual(exchange.messages.map(message => [message.role, message.id]), [
+    ['assistant', 'e7a2d9f6-3c4b-4e5d-8fb0-2b3c4d5e6f77'],
+  ]);
+});
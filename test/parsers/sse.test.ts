@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseJSON, parseSSE } from '../../src/parsers/sse';
+import { readFixture } from '../helpers';
+
+test('splits a recorded stream into named events', () => {
+  const events = parseSSE(readFixture('claude/completion.sse'));
+  assert.equal(events.length, 17);
+  assert.deepEqual(events.slice(0, 2).map(event => event.event), ['message_start', 'content_block_start']);
+  assert.equal(events[events.length - 1].data, '{"type":"message_stop"}');
+});
+
+test('defaults the event name and keeps unnamed data events', () => {
+  const events = parseSSE(readFixture('chatgpt/completion-legacy.sse'));
+  assert.equal(events.length, 5);
+  assert.ok(events.every(event => event.event === 'message'));
+  assert.equal(events[4].data, '[DONE]');
+});
+
+test('handles CRLF line endings and joins multi-line data', () => {
+  const events = parseSSE('event: delta\r\ndata: {"a":\r\ndata: 1}\r\n\r\n: keep-alive\r\n\r\ndata:no-space\r\n\r\n');
+  assert.deepEqual(events, [
+    { event: 'delta', data: '{"a":\n1}' },
+    { event: 'message', data: 'no-space' },
+  ]);
+});
+
+test('parseJSON returns null instead of throwing', () => {
+  assert.equal(parseJSON('[DONE]'), null);
+  assert.equal(parseJSON(undefined), null);
+  assert.deepEqual(parseJSON('{"v":1}'), { v: 1 });
+});
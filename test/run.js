@@ -0,0 +1,49 @@
+const esbuild = require('esbuild');
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+// Collect test/**/*.test.ts
+function findTests(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findTests(file);
+    return entry.name.endsWith('.test.ts') ? [file] : [];
+  });
+}
+
+// Bundle each test file for Node, then hand them all to the built-in test runner;
+// arguments keep only the files whose path contains one of them
+async function runTests(filters) {
+  const tests = findTests('test').filter(file => filters.length === 0 || filters.some(filter => file.includes(filter)));
+  // Inside node_modules, so externals resolve and git ignores the output
+  const outdir = path.join('node_modules', '.cache', 'ai-context-tests');
+  fs.rmSync(outdir, { recursive: true, force: true });
+
+  try {
+    await esbuild.build({
+      entryPoints: tests,
+      bundle: true,
+      outdir,
+      outbase: 'test',
+      platform: 'node',
+      target: 'node18',
+      format: 'cjs',
+      sourcemap: 'inline',
+      logLevel: 'warning',
+      // Loaded from node_modules at run time, like the real encoders
+      external: ['jsdom', 'tiktoken', '@anthropic-ai/tokenizer'],
+    });
+
+    const bundles = tests.map(file => path.join(outdir, path.relative('test', file).replace(/\.ts$/, '.js')));
+    const result = spawnSync(process.execPath, ['--enable-source-maps', '--test', ...bundles], { stdio: 'inherit' });
+    process.exitCode = result.status ?? 1;
+  } finally {
+    fs.rmSync(outdir, { recursive: true, force: true });
+  }
+}
+
+runTests(process.argv.slice(2)).catch(error => {
+  console.error('❌ Error running tests:', error);
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateTokens, scriptProfile } from '../../src/utils/estimator';
+import { BaseEncoding } from '../../src/utils/encodings';
+import { loadEncoder, readCorpus } from '../helpers';
+
+// Worst relative error allowed per held-out sample, as documented next to the rates
+const BOUNDS: { [category: string]: number } = {
+  prose: 0.3,
+  code: 0.3,
+  cjk: 0.3,
+  hangul: 0.3,
+  emoji: 0.3,
+  base64: 0.3,
+  hex: 0.3,
+  mixed: 0.4,
+  cyrillic: 0.4,
+  greek: 0.4,
+  arabic: 0.4,
+  hebrew: 0.4,
+  devanagari: 0.4,
+  thai: 0.4,
+};
+
+const corpus = readCorpus('held-out');
+
+test('every corpus category has a bound', () => {
+  assert.deepEqual(new Set(corpus.map(sample => sample.category)), new Set(Object.keys(BOUNDS)));
+});
+
+for (const base of ['o200k_base', 'cl100k_base', 'claude'] as BaseEncoding[]) {
+  test(`stays within bounds of the ${base} encoder`, t => {
+    const count = loadEncoder(base);
+    const worst: { [category: string]: number } = {};
+    for (const { category, text } of corpus) {
+      const exact = count(text);
+      const error = (estimateTokens(text, base) - exact) / exact;
+      if (!(Math.abs(worst[category]) >= Math.abs(error))) worst[category] = error;
+    }
+
+    // `npm test -- estimator` prints this table on its own
+    t.diagnostic(Object.entries(worst).map(([category, error]) => `${category} ${(error * 100).toFixed(0)}%`).join(', '));
+    for (const [category, error] of Object.entries(worst)) {
+      assert.ok(Math.abs(error) <= BOUNDS[category], `${category} off by ${(error * 100).toFixed(0)}%`);
+    }
+  });
+}
+
+test('counts emoji sequences and hex groups', () => {
+  const emoji = scriptProfile('👍🏽 👨‍👩‍👧');
+  assert.equal(emoji.emoji, 2);
+  assert.equal(emoji.emojiParts, 5);
+
+  const dump = scriptProfile('0010: 0300 3e00 e83a face');
+  assert.equal(dump.hex, 8);
+  assert.equal(dump.words, 1);
+  assert.equal(estimateTokens('', 'claude'), 0);
+});